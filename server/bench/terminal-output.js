@@ -0,0 +1,174 @@
+// Measures how responsive a connection stays while a terminal floods it with
+// output, with and without terminal flow control.
+//
+//   npm run bench [-- --megabytes 20 --render-us-per-kb 50]
+//
+// The client stands in for the extension host: it spends some time "rendering"
+// every chunk of terminal output (--render-us-per-kb). While one terminal runs
+// `yes | head`, it measures the round trip of fs.stat requests and how long a
+// command typed into a second terminal takes to echo back.
+
+const os = require('os');
+const WebSocket = require('ws');
+
+// The server logs every connection; only the results go to stdout
+const out = new console.Console(process.stdout);
+console.log = () => {};
+const { AIXRemoteServer } = require('../dist/server');
+
+const TOKEN = 'bench-token-0123456789abcdef';
+// Same step as the extension (TERMINAL_ACK_CHARS)
+const ACK_CHARS = 16 * 1024;
+
+function option(name, fallback) {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? Number(process.argv[index + 1]) : fallback;
+}
+
+const MEGABYTES = option('megabytes', 20);
+const RENDER_US_PER_KB = option('render-us-per-kb', 50);
+const PROBE_INTERVAL_MS = 50;
+
+function busyWait(microseconds) {
+    const until = process.hrtime.bigint() + BigInt(Math.round(microseconds * 1000));
+    while (process.hrtime.bigint() < until) {
+        // Rendering
+    }
+}
+
+function percentile(samples, p) {
+    if (samples.length === 0) {
+        return NaN;
+    }
+    const sorted = [...samples].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+async function run(port, flowControl, flood) {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+    await new Promise((resolve, reject) => {
+        ws.on('open', resolve);
+        ws.on('error', reject);
+    });
+
+    const waiters = new Map();
+    const outputs = new Map();
+    let nextId = 0;
+    let unacknowledged = 0;
+    let floodChars = 0;
+    let floodMessages = 0;
+
+    const send = (method, params, id) => ws.send(JSON.stringify({ jsonrpc: '2.0', method, params, id }));
+    const request = (method, params) => new Promise(resolve => {
+        const id = `r${++nextId}`;
+        waiters.set(id, resolve);
+        send(method, params, id);
+    });
+    const waitForOutput = (sessionId, text) => new Promise(resolve => {
+        const output = outputs.get(sessionId);
+        output.waiting = { text, resolve };
+    });
+
+    ws.on('message', (message) => {
+        const response = JSON.parse(message.toString());
+        const waiter = waiters.get(response.id);
+        if (waiter) {
+            waiters.delete(response.id);
+            waiter(response);
+            return;
+        }
+        const output = outputs.get(response.id);
+        if (!output || !response.result || response.result.type !== 'data') {
+            return;
+        }
+
+        const data = response.result.data;
+        busyWait(data.length / 1024 * RENDER_US_PER_KB);
+        if (response.id === 'flood') {
+            floodChars += data.length;
+            floodMessages++;
+        }
+        output.text = (output.text + data).slice(-4096);
+        if (output.waiting && output.text.includes(output.waiting.text)) {
+            output.waiting.resolve();
+            output.waiting = null;
+        }
+        if (flowControl) {
+            unacknowledged += data.length;
+            if (unacknowledged >= ACK_CHARS) {
+                send('terminal.ack', { sessionId: response.id, chars: unacknowledged });
+                unacknowledged = 0;
+            }
+        }
+    });
+
+    await request('auth.hello', { token: TOKEN });
+    for (const sessionId of ['flood', 'interactive']) {
+        outputs.set(sessionId, { text: '', waiting: null });
+        send('terminal.create', { sessionId, flowControl, gracePeriod: 0 }, sessionId);
+    }
+
+    const statLatencies = [];
+    const echoLatencies = [];
+    const started = Date.now();
+    let finished = false;
+    const done = flood
+        ? waitForOutput('flood', 'flood-finished').then(() => { finished = true; })
+        : new Promise(resolve => setTimeout(() => { finished = true; resolve(); }, 2000));
+    if (flood) {
+        const command = `yes "cc -c src/module.c -o obj/module.o" | head -c ${MEGABYTES * 1024 * 1024}; echo flood-fini""shed\n`;
+        send('terminal.input', { sessionId: 'flood', data: command });
+    }
+
+    let probe = 0;
+    while (!finished) {
+        let sent = Date.now();
+        await request('fs.stat', { path: os.tmpdir() });
+        statLatencies.push(Date.now() - sent);
+
+        const marker = `ping${++probe}`;
+        sent = Date.now();
+        // Quoted apart so the echoed input does not match
+        send('terminal.input', { sessionId: 'interactive', data: `echo ${marker.slice(0, 2)}""${marker.slice(2)}\n` });
+        await waitForOutput('interactive', `${marker}\n`);
+        echoLatencies.push(Date.now() - sent);
+
+        await new Promise(resolve => setTimeout(resolve, PROBE_INTERVAL_MS));
+    }
+    await done;
+    const elapsed = (Date.now() - started) / 1000;
+
+    ws.close();
+    return {
+        scenario: !flood ? 'idle' : flowControl ? 'flood, flow control' : 'flood, no flow control',
+        'MB/s': flood ? (floodChars / 1024 / 1024 / elapsed).toFixed(1) : '-',
+        'msgs': flood ? floodMessages : '-',
+        'stat p50 ms': percentile(statLatencies, 0.5),
+        'stat p95 ms': percentile(statLatencies, 0.95),
+        'stat max ms': Math.max(...statLatencies),
+        'echo p50 ms': percentile(echoLatencies, 0.5),
+        'echo p95 ms': percentile(echoLatencies, 0.95),
+        'echo max ms': Math.max(...echoLatencies)
+    };
+}
+
+async function main() {
+    // Keep login profiles out of the measurements
+    process.env.SHELL = '/bin/sh';
+    const server = new AIXRemoteServer({ port: 0, authToken: TOKEN });
+    const port = await server.waitForListening();
+
+    const results = [];
+    results.push(await run(port, true, false));
+    results.push(await run(port, false, true));
+    results.push(await run(port, true, true));
+
+    await server.close();
+    out.log(`${MEGABYTES} MB of output, ${RENDER_US_PER_KB} µs/KB rendering cost on the client`);
+    out.table(results);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,421 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type FileChangeType = 'created' | 'changed' | 'deleted';
+
+export interface FileChange {
+    type: FileChangeType;
+    path: string;
+}
+
+export interface WatchOptions {
+    recursive: boolean;
+    excludes: string[];
+    // Poll even where fs.watch works, e.g. for file systems it misses changes on
+    poll?: boolean;
+}
+
+interface EntrySnapshot {
+    mtimeMs: number;
+    size: number;
+    isDirectory: boolean;
+}
+
+// How often the polling fallback rescans the tree
+const POLL_INTERVAL_MS = 2000;
+// Time a rescan may take per interval; a longer one carries on at the next
+const POLL_BUDGET_MS = 200;
+// Polling a huge recursive tree is expensive; stop descending past this many entries
+const MAX_POLLED_ENTRIES = 10000;
+// Entries stat'ed at once while scanning
+const POLL_STAT_BATCH = 32;
+// Native events arrive in bursts; deliver them together
+const DEBOUNCE_MS = 100;
+
+/**
+ * Watches a file or directory and reports changes in batches.
+ *
+ * Uses fs.watch where the platform supports it for the requested mode and
+ * falls back to mtime polling otherwise - AIX has no inotify, and recursive
+ * fs.watch is unavailable on most platforms.
+ */
+export class FileWatcher {
+    private nativeWatcher: fs.FSWatcher | null = null;
+    private subscription: PollSubscription | null = null;
+    private pending: Map<string, FileChangeType> = new Map();
+    private flushTimer: NodeJS.Timeout | null = null;
+    private excludes: RegExp[];
+    private disposed: boolean = false;
+    public mode: 'native' | 'poll' = 'poll';
+
+    constructor(
+        private root: string,
+        private options: WatchOptions,
+        private onChange: (changes: FileChange[]) => void
+    ) {
+        this.excludes = (options.excludes || []).map(globToRegExp);
+    }
+
+    /**
+     * Resolves once changes are being reported; when polling, that is after
+     * the first scan of the tree
+     */
+    async start(): Promise<void> {
+        if (this.options.poll) {
+            return this.startPolling();
+        }
+        try {
+            this.nativeWatcher = fs.watch(this.root, { recursive: this.options.recursive, persistent: false },
+                (eventType, filename) => this.handleNativeEvent(eventType, filename ? filename.toString() : null));
+            this.nativeWatcher.on('error', (error) => {
+                console.log(`Native watch failed for ${this.root}, polling instead:`, error.message);
+                this.startPolling();
+            });
+            this.mode = 'native';
+        } catch (error) {
+            console.log(`fs.watch unavailable for ${this.root}, polling instead:`, error instanceof Error ? error.message : String(error));
+            return this.startPolling();
+        }
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        if (this.nativeWatcher) {
+            this.nativeWatcher.close();
+            this.nativeWatcher = null;
+        }
+        if (this.subscription) {
+            this.subscription.dispose();
+            this.subscription = null;
+        }
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+    }
+
+    private handleNativeEvent(eventType: string, filename: string | null): void {
+        // Without a filename all we know is that something in the root changed
+        const changedPath = filename ? path.join(this.root, filename) : this.root;
+        if (this.isExcluded(changedPath)) {
+            return;
+        }
+
+        // fs.watch only reports 'rename' or 'change'; check the path to tell
+        // creations from deletions
+        fs.lstat(changedPath, (err) => {
+            if (err) {
+                this.queueChange(changedPath, 'deleted');
+            } else if (eventType === 'rename' || this.pending.get(changedPath) === 'created') {
+                this.queueChange(changedPath, 'created');
+            } else {
+                this.queueChange(changedPath, 'changed');
+            }
+        });
+    }
+
+    private async startPolling(): Promise<void> {
+        if (this.disposed || this.subscription) {
+            return;
+        }
+        if (this.nativeWatcher) {
+            this.nativeWatcher.close();
+            this.nativeWatcher = null;
+        }
+        this.mode = 'poll';
+        this.subscription = TreePoller.subscribe({
+            root: this.root,
+            recursive: this.options.recursive,
+            watches: (entryPath) => this.watches(entryPath),
+            onChange: (entryPath, type) => this.queueChange(entryPath, type)
+        });
+        await this.subscription.ready;
+    }
+
+    // A poller shared with a watch of an enclosing tree scans more than this
+    // watch covers
+    private watches(entryPath: string): boolean {
+        if (!contains(this.root, entryPath)) {
+            return false;
+        }
+        const relative = path.relative(this.root, entryPath);
+        return !relative || ((this.options.recursive || !relative.includes(path.sep)) && !this.isExcluded(entryPath));
+    }
+
+    private isExcluded(entryPath: string): boolean {
+        const relative = path.relative(this.root, entryPath);
+        return this.excludes.some(pattern => pattern.test(entryPath) || pattern.test(relative));
+    }
+
+    private queueChange(entryPath: string, type: FileChangeType): void {
+        if (this.disposed) {
+            return;
+        }
+        this.pending.set(entryPath, type);
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), DEBOUNCE_MS);
+        }
+    }
+
+    private flush(): void {
+        this.flushTimer = null;
+        if (this.pending.size === 0 || this.disposed) {
+            return;
+        }
+        const changes = Array.from(this.pending, ([changedPath, type]) => ({ type, path: changedPath }));
+        this.pending.clear();
+        this.onChange(changes);
+    }
+}
+
+interface PollSubscriber {
+    root: string;
+    recursive: boolean;
+    // Whether changes to an entry are reported to this subscriber
+    watches(entryPath: string): boolean;
+    onChange(entryPath: string, type: FileChangeType): void;
+}
+
+interface PollSubscription {
+    // Resolves once a scan has taken in everything the subscriber watches
+    ready: Promise<void>;
+    dispose(): void;
+}
+
+interface PollScan {
+    // Directories still to be listed, and entries listed but not stat'ed yet
+    directories: string[];
+    entries: string[];
+    result: Map<string, EntrySnapshot>;
+    // Entries none of these watch, or lead to the root of, are left out
+    subscribers: PollSubscriber[];
+}
+
+/**
+ * Rescans a tree for the polling watchers that cover it. A watch of a
+ * directory that an existing recursive poller already scans shares its
+ * scans instead of starting its own; each subscriber decides by its own
+ * root and excludes what it watches.
+ */
+class TreePoller {
+    private static pollers: Set<TreePoller> = new Set();
+
+    private subscribers: Set<PollSubscriber> = new Set();
+    // Subscribers yet to be taken in by a scan, which later ones compare to
+    private waiting: Map<PollSubscriber, () => void> = new Map();
+    private snapshot: Map<string, EntrySnapshot> | null = null;
+    // Set when the last scan stopped at MAX_POLLED_ENTRIES
+    private truncated: boolean = false;
+    private scan: PollScan | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private stopped: boolean = false;
+
+    static subscribe(subscriber: PollSubscriber): PollSubscription {
+        let poller = Array.from(TreePoller.pollers).find(candidate => candidate.covers(subscriber.root, subscriber.recursive));
+        if (!poller) {
+            poller = new TreePoller(subscriber.root, subscriber.recursive);
+            TreePoller.pollers.add(poller);
+        }
+        return poller.add(subscriber);
+    }
+
+    private constructor(private root: string, private recursive: boolean) {
+    }
+
+    private add(subscriber: PollSubscriber): PollSubscription {
+        this.subscribers.add(subscriber);
+        const ready = new Promise<void>(resolve => this.waiting.set(subscriber, resolve));
+        // Earlier scans left out what only this subscriber watches
+        this.rescan();
+        return { ready, dispose: () => this.remove(subscriber) };
+    }
+
+    private remove(subscriber: PollSubscriber): void {
+        this.subscribers.delete(subscriber);
+        this.waiting.get(subscriber)?.();
+        this.waiting.delete(subscriber);
+        if (this.subscribers.size === 0) {
+            this.stopped = true;
+            if (this.timer) {
+                clearTimeout(this.timer);
+                this.timer = null;
+            }
+            TreePoller.pollers.delete(this);
+        }
+    }
+
+    private covers(root: string, recursive: boolean): boolean {
+        if (this.stopped) {
+            return false;
+        }
+        if (root === this.root) {
+            return this.recursive || !recursive;
+        }
+        // Only a directory the last scan fully went through
+        return this.recursive && !this.truncated && this.snapshot?.get(root)?.isDirectory === true;
+    }
+
+    /**
+     * Start over with a scan that runs straight through, so that changes made
+     * once a new subscriber is ready are not mistaken for the tree as it was
+     */
+    private rescan(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        const scan = this.startScan();
+        this.continueScan(scan, Infinity).then(complete => this.scanned(scan, complete));
+    }
+
+    private schedule(): void {
+        if (this.stopped) {
+            return;
+        }
+        this.timer = setTimeout(() => this.tick(), POLL_INTERVAL_MS);
+        this.timer.unref();
+    }
+
+    private async tick(): Promise<void> {
+        this.timer = null;
+        const scan = this.scan || this.startScan();
+        this.scanned(scan, await this.continueScan(scan, Date.now() + POLL_BUDGET_MS));
+    }
+
+    private scanned(scan: PollScan, complete: boolean): void {
+        // A rescan took over, and schedules the next tick itself
+        if (scan !== this.scan) {
+            return;
+        }
+        if (complete) {
+            this.finishScan();
+        }
+        this.schedule();
+    }
+
+    private startScan(): PollScan {
+        this.scan = { directories: [], entries: [this.root], result: new Map(), subscribers: Array.from(this.subscribers) };
+        return this.scan;
+    }
+
+    /**
+     * Scan until done or past the deadline; true once the scan is complete
+     */
+    private async continueScan(scan: PollScan, deadline: number): Promise<boolean> {
+        while ((scan.entries.length > 0 || scan.directories.length > 0) && scan.result.size < MAX_POLLED_ENTRIES) {
+            if (this.stopped || scan !== this.scan || Date.now() > deadline) {
+                return false;
+            }
+            if (scan.entries.length === 0) {
+                const dir = scan.directories.shift()!;
+                try {
+                    const names = await fs.promises.readdir(dir);
+                    scan.entries = names.map(name => path.join(dir, name)).filter(entryPath => isScanned(scan, entryPath));
+                } catch (error) {
+                    // Gone, or not readable
+                }
+                continue;
+            }
+            const batch = scan.entries.splice(0, POLL_STAT_BATCH);
+            const entries = await Promise.all(batch.map(statEntry));
+            batch.forEach((entryPath, index) => {
+                const entry = entries[index];
+                if (!entry) {
+                    return;
+                }
+                scan.result.set(entryPath, entry);
+                // The root's own entries are listed either way
+                if (entry.isDirectory && (this.recursive || entryPath === this.root)) {
+                    scan.directories.push(entryPath);
+                }
+            });
+        }
+        return !this.stopped;
+    }
+
+    private finishScan(): void {
+        const scan = this.scan!;
+        this.scan = null;
+        this.truncated = scan.result.size >= MAX_POLLED_ENTRIES;
+        const previous = this.snapshot;
+        this.snapshot = scan.result;
+
+        // Those just taken in have nothing to compare to yet
+        const subscribers = scan.subscribers.filter(subscriber => this.subscribers.has(subscriber) && !this.waiting.has(subscriber));
+        for (const subscriber of scan.subscribers) {
+            this.waiting.get(subscriber)?.();
+            this.waiting.delete(subscriber);
+        }
+        if (!previous) {
+            return;
+        }
+
+        const notify = (entryPath: string, type: FileChangeType) => {
+            for (const subscriber of subscribers) {
+                if (subscriber.watches(entryPath)) {
+                    subscriber.onChange(entryPath, type);
+                }
+            }
+        };
+        for (const [entryPath, entry] of scan.result) {
+            const before = previous.get(entryPath);
+            if (!before) {
+                notify(entryPath, 'created');
+            } else if (before.mtimeMs !== entry.mtimeMs || before.size !== entry.size) {
+                notify(entryPath, 'changed');
+            }
+        }
+        for (const entryPath of previous.keys()) {
+            if (!scan.result.has(entryPath)) {
+                notify(entryPath, 'deleted');
+            }
+        }
+    }
+}
+
+// Whether a scan looks at an entry: one a subscriber watches, or a directory
+// on the way to a subscriber's root
+function isScanned(scan: PollScan, entryPath: string): boolean {
+    return scan.subscribers.some(subscriber => subscriber.watches(entryPath) || contains(entryPath, subscriber.root));
+}
+
+async function statEntry(entryPath: string): Promise<EntrySnapshot | null> {
+    try {
+        const stats = await fs.promises.lstat(entryPath);
+        return { mtimeMs: stats.mtimeMs, size: stats.size, isDirectory: stats.isDirectory() };
+    } catch (error) {
+        return null;
+    }
+}
+
+function contains(dir: string, entryPath: string): boolean {
+    const relative = path.relative(dir, entryPath);
+    return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Convert a VS Code style exclude glob (`**`, `*`, `?`) to a regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // `**/` matches any number of directories, including none
+            if (glob[i + 2] === '/') {
+                pattern += '(?:.*/)?';
+                i += 2;
+            } else {
+                pattern += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else {
+            pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${pattern}(?:/.*)?$`);
+}
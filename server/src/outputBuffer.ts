@@ -0,0 +1,50 @@
+/**
+ * Keeps the most recent output of a terminal session so a client that
+ * reattaches can be sent what it missed.
+ *
+ * Offsets count characters since the session started, so a client can ask
+ * for everything after the last character it received.
+ */
+export class OutputBuffer {
+    private chunks: string[] = [];
+    private buffered: number = 0;
+    private total: number = 0;
+
+    constructor(private capacity: number) {}
+
+    append(data: string): void {
+        this.chunks.push(data);
+        this.buffered += data.length;
+        this.total += data.length;
+
+        // Drop the oldest output once over capacity
+        while (this.buffered > this.capacity && this.chunks.length > 0) {
+            const excess = this.buffered - this.capacity;
+            const oldest = this.chunks[0];
+            if (oldest.length <= excess) {
+                this.chunks.shift();
+                this.buffered -= oldest.length;
+            } else {
+                this.chunks[0] = oldest.slice(excess);
+                this.buffered -= excess;
+            }
+        }
+    }
+
+    /**
+     * Output after `offset`, or as much of it as is still buffered
+     */
+    since(offset: number): { data: string; truncated: boolean } {
+        const start = this.total - this.buffered;
+        const all = this.chunks.join('');
+        this.chunks = all ? [all] : [];
+        return {
+            data: all.slice(Math.max(0, offset - start)),
+            truncated: offset < start
+        };
+    }
+
+    get length(): number {
+        return this.total;
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * A pseudo-terminal for hosts without node-pty, run as `python -c`. It starts
+ * the shell on a new pty at the given size and relays bytes between its own
+ * stdin/stdout and the pty, exiting with the shell's status.
+ *
+ *   python -c PTY_HELPER_SOURCE <rows> <cols> <shell> [args...]
+ *
+ * Kept to what both Python 2.7 and 3 provide, since either may be the one
+ * installed from the AIX Toolbox. Resizes are applied with stty on the pty.
+ */
+export const PTY_HELPER_SOURCE = `
+import errno, fcntl, os, pty, select, struct, sys, termios
+
+rows, cols = int(sys.argv[1]), int(sys.argv[2])
+argv = sys.argv[3:]
+
+pid, master = pty.fork()
+if pid == 0:
+    try:
+        fcntl.ioctl(0, termios.TIOCSWINSZ, struct.pack('HHHH', rows, cols, 0, 0))
+        os.execvp(argv[0], argv)
+    finally:
+        os._exit(127)
+
+def write_all(fd, data):
+    while data:
+        data = data[os.write(fd, data):]
+
+stdin, stdout = sys.stdin.fileno(), sys.stdout.fileno()
+inputs = [master, stdin]
+while True:
+    try:
+        readable = select.select(inputs, [], [])[0]
+    except select.error as error:
+        if error.args[0] == errno.EINTR:
+            continue
+        raise
+    if master in readable:
+        try:
+            data = os.read(master, 65536)
+        except OSError:
+            # EIO once the shell has exited
+            data = b''
+        if not data:
+            break
+        write_all(stdout, data)
+    if stdin in readable:
+        data = os.read(stdin, 65536)
+        if data:
+            write_all(master, data)
+        else:
+            inputs.remove(stdin)
+
+status = os.waitpid(pid, 0)[1]
+if os.WIFSIGNALED(status):
+    sys.exit(128 + os.WTERMSIG(status))
+sys.exit(os.WEXITSTATUS(status))
+`;
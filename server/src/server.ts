@@ -2,7 +2,17 @@ import * as WebSocket from 'ws';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { spawn, ChildProcess } from 'child_process';
+import * as crypto from 'crypto';
+import { spawn, execFile, ChildProcess, ChildProcessWithoutNullStreams } from 'child_process';
+import { FileWatcher } from './fileWatcher';
+import { OutputBuffer } from './outputBuffer';
+import { PTY_HELPER_SOURCE } from './ptyHelper';
+import { withShellIntegration } from './shellIntegration';
+
+// In stdio mode stdout carries the protocol, so diagnostics go to stderr
+if (process.argv.includes('--stdio')) {
+    console.log = console.error;
+}
 
 // Import node-pty with fallback - try multiple locations
 let pty: any = null;
@@ -37,130 +47,599 @@ interface RPCResponse {
     id: string | number | null;
 }
 
+// Shared secret written by the extension when it deploys the server
+const AUTH_TOKEN_FILE = path.join(os.homedir(), '.aix-remote', 'auth.token');
+// Where a WebSocket server advertises its port and PID. Keyed by hostname
+// because home directories are often shared between build hosts over NFS.
+const SERVER_INFO_FILE = path.join(os.homedir(), '.aix-remote', `server-${os.hostname()}.json`);
+// Unauthenticated clients are dropped after this long
+const AUTH_TIMEOUT_MS = 10000;
+const RPC_UNAUTHORIZED = -32001;
+// A write whose precondition no longer matches the file on disk
+const RPC_WRITE_CONFLICT = -32010;
+// The client sent `$/cancelRequest` for the request (same code as LSP)
+const RPC_REQUEST_CANCELLED = -32800;
+// A failed system call; data carries the errno code so clients can tell
+// a missing file from a permission problem
+const RPC_FILE_SYSTEM_ERROR = -32011;
+// Entries of a listing that are described at once
+const READ_DIRECTORY_BATCH = 64;
+// Upper bound for a single fs.read chunk
+const MAX_CHUNK_SIZE = 4 * 1024 * 1024;
+// Recent output kept per terminal session for clients that reattach
+const SESSION_OUTPUT_BUFFER_SIZE = 256 * 1024;
+// How long a terminal session outlives the connection that owned it, unless
+// the client asks for something else (within the cap)
+const DEFAULT_SESSION_GRACE_MS = 5 * 60 * 1000;
+const MAX_SESSION_GRACE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TERM = 'xterm-color';
+// Terminal output is held this long, or until this much has built up, so a
+// burst goes out as one message instead of one per read
+const OUTPUT_COALESCE_MS = 5;
+const OUTPUT_COALESCE_MAX = 64 * 1024;
+// With flow control, a session's shell is paused once this many characters
+// are waiting for the client's terminal.ack, and resumed below the low mark
+const FLOW_CONTROL_HIGH_WATERMARK = 256 * 1024;
+const FLOW_CONTROL_LOW_WATERMARK = 64 * 1024;
+
+/**
+ * How a terminal session's shell gets its terminal:
+ * - pty: node-pty
+ * - script: wrapped in script(1), which allocates a pty
+ * - helper: the bundled Python PTY helper
+ * - spawn: plain pipes, so full-screen programs will not work
+ */
+type TerminalMode = 'pty' | 'script' | 'helper' | 'spawn';
+// Tried in this order; spawn is always the last resort
+const TERMINAL_MODES: TerminalMode[] = ['pty', 'script', 'helper'];
+
+/**
+ * A shell started by terminal.create. When its connection goes away it keeps
+ * running, detached, for a grace period so the client can reattach.
+ */
 interface TerminalSession {
+    id: string | number;
     process: any; // IPty or ChildProcess
-    type: 'pty' | 'spawn';
+    type: TerminalMode;
+    // In script and helper mode, the shell running on the pty they
+    // allocated; looked up when first needed
+    ptyShell?: PtyShell;
     cwd: string;
+    shell: string;
+    args: string[];
+    env: { [name: string]: string | undefined };
+    term: string;
+    name?: string;
+    createdAt: number;
+    // Who receives the output, and the request id it is streamed under;
+    // connection is null while detached
+    connection: ClientConnection | null;
+    streamId: string | number;
+    output: OutputBuffer;
+    gracePeriodMs: number;
+    detachedAt?: number;
+    detachTimer?: NodeJS.Timeout;
+    // Output waiting for the coalescing timer
+    pendingOutput: string;
+    flushTimer?: NodeJS.Timeout;
+    // Set when the client acknowledges output with terminal.ack
+    flowControl: boolean;
+    unacknowledged: number;
+    paused: boolean;
+}
+
+/**
+ * A command started by process.spawn. Its output streams back under the id of
+ * the request that started it.
+ */
+interface SpawnedProcess {
+    id: number;
+    child: ChildProcessWithoutNullStreams;
+    connection: ClientConnection;
+    streamId: string | number;
+}
+
+interface PtyShell {
+    pid: number;
+    tty: string;
+}
+
+interface ProcessOptions {
+    cwd?: string;
+    // Added to the server's environment
+    env?: { [name: string]: string };
+    // Runs the command as `<shell> -c <command>`; sh by default
+    shell?: string;
+}
+
+interface TerminalOptions {
+    // Stable id chosen by the client, used to reattach; defaults to the request id
+    sessionId?: string;
+    name?: string;
+    // Seconds to keep the session running after its connection drops
+    gracePeriod?: number;
+    // The client acknowledges output it has shown with terminal.ack
+    flowControl?: boolean;
+    // Shell to run instead of $SHELL, by name or path
+    shell?: string;
+    // Extra arguments for the shell
+    args?: string[];
+    // Start it as a login shell, so it reads the profile
+    login?: boolean;
+    // Added to the server's environment
+    env?: { [name: string]: string };
+    // Terminal type; xterm-color by default
+    term?: string;
+    // Have bash and ksh report prompts, exit statuses and the working directory
+    shellIntegration?: boolean;
+}
+
+/**
+ * A file opened with fs.open for chunked transfer. Writes go to a temporary
+ * file next to the target that replaces it on fs.close, so a partially
+ * uploaded file never appears under the real name.
+ */
+interface OpenFile {
+    fd: number;
+    path: string;
+    mode: 'read' | 'write';
+    tmpPath?: string;
+    precondition?: WritePrecondition;
+    connection: ClientConnection;
+}
+
+/**
+ * The version of a file the client last saw. A write carrying one is refused
+ * if the file has since been changed by someone else.
+ */
+interface WritePrecondition {
+    mtime: number;
+    size: number;
+    // sha256 of the content; lets a write through when only the mtime moved
+    hash?: string;
+}
+
+/**
+ * VS Code's create/overwrite flags. Both default to true, which is what a
+ * plain save wants.
+ */
+interface WriteFlags {
+    create: boolean;
+    overwrite: boolean;
+}
+
+class WriteConflictError extends Error {
+    constructor(public filePath: string, public current: { mtime: number; size: number }) {
+        super(`${filePath} has been modified since it was read`);
+    }
+}
+
+interface Watch {
+    watcher: FileWatcher;
+    connection: ClientConnection;
+}
+
+/**
+ * A single client, whether it reached us over WebSocket or over stdio
+ */
+interface ClientConnection {
+    id: string;
+    authenticated: boolean;
+    // Requests still being worked on, so `$/cancelRequest` can abort them
+    inFlight: Map<string | number, AbortController>;
+    send(message: RPCResponse | RPCResponse[]): void;
+    isOpen(): boolean;
+    close(code?: number, reason?: string): void;
+}
+
+interface ServerOptions {
+    port?: number;
+    authToken?: string;
+    // Serve a single client over these streams instead of listening on a port
+    stdio?: { input: NodeJS.ReadableStream; output: NodeJS.WritableStream };
+    // Ways to give terminals a pty, in order of preference
+    terminalModes?: TerminalMode[];
 }
 
 class AIXRemoteServer {
-    private wss: WebSocket.Server;
-    private port: number;
+    private wss: WebSocket.Server | null = null;
+    private port: number = 0;
     private activeSessions: Map<string | number, TerminalSession> = new Map();
-    private clientConnections: Map<WebSocket, string> = new Map();
+    private clientConnections: Set<ClientConnection> = new Set();
+    private openFiles: Map<string, OpenFile> = new Map();
+    private nextFileHandle: number = 0;
+    private nextTempFile: number = 0;
+    private watches: Map<string, Watch> = new Map();
+    private nextWatchId: number = 0;
+    private processes: Map<number, SpawnedProcess> = new Map();
+    private nextProcessId: number = 0;
+    private authToken: Buffer | null = null;
+    private terminalModes: TerminalMode[];
+
+    constructor(options: ServerOptions) {
+        console.log(`Platform: ${os.platform()}, Architecture: ${os.arch()}`);
+        console.log(`PTY Support: ${pty ? 'Available' : 'Not Available'}`);
+        this.terminalModes = options.terminalModes || TERMINAL_MODES;
+
+        if (options.stdio) {
+            this.serveStdio(options.stdio.input, options.stdio.output);
+            return;
+        }
 
-    constructor(port: number = 8080) {
-        this.port = port;
-        this.wss = new WebSocket.Server({ port });
+        if (!options.authToken) {
+            throw new Error('An authentication token is required to start the server');
+        }
+        this.port = options.port ?? 0;
+        this.authToken = Buffer.from(options.authToken, 'utf8');
+        this.wss = new WebSocket.Server({ port: this.port });
         this.setupServer();
     }
 
+    /**
+     * Resolve with the bound port once the server is accepting connections
+     */
+    waitForListening(): Promise<number> {
+        return new Promise((resolve, reject) => {
+            const wss = this.wss;
+            if (!wss) {
+                reject(new Error('Server is not listening on a port'));
+                return;
+            }
+            const address = wss.address();
+            if (address && typeof address === 'object') {
+                resolve(address.port);
+                return;
+            }
+            wss.once('listening', () => {
+                resolve((wss.address() as WebSocket.AddressInfo).port);
+            });
+            wss.once('error', reject);
+        });
+    }
+
+    close(): Promise<void> {
+        for (const connection of this.clientConnections) {
+            connection.close();
+        }
+        for (const session of Array.from(this.activeSessions.values())) {
+            this.endSession(session, 'SIGHUP');
+        }
+        this.processes.forEach(spawned => spawned.child.kill('SIGTERM'));
+        return new Promise((resolve) => {
+            if (this.wss) {
+                this.wss.close(() => resolve());
+            } else {
+                resolve();
+            }
+        });
+    }
+
     setupServer() {
+        if (!this.wss) {
+            return;
+        }
+
         console.log(`AIX Remote Server starting on port ${this.port}...`);
-        console.log(`Platform: ${os.platform()}, Architecture: ${os.arch()}`);
-        console.log(`PTY Support: ${pty ? 'Available' : 'Not Available'}`);
         
         this.wss.on('connection', (ws: WebSocket) => {
             console.log('Client connected');
             
             // Store client connection
-            const clientId = `client_${Date.now()}_${Math.random()}`;
-            this.clientConnections.set(ws, clientId);
-            
-            ws.on('message', async (data: WebSocket.Data) => {
-                try {
-                    const message: RPCMessage = JSON.parse(data.toString());
-                    const response = await this.handleMessage(message, ws);
-                    
-                    // Only send response if there is one (streaming commands return null)
-                    if (response !== null) {
-                        ws.send(JSON.stringify(response));
+            const connection: ClientConnection = {
+                id: `client_${Date.now()}_${Math.random()}`,
+                authenticated: false,
+                inFlight: new Map(),
+                send: (message: RPCResponse | RPCResponse[]) => {
+                    if (ws.readyState === WebSocket.OPEN) {
+                        ws.send(JSON.stringify(message));
                     }
-                } catch (error) {
-                    const errorResponse: RPCResponse = {
-                        jsonrpc: '2.0',
-                        error: {
-                            code: -32700,
-                            message: 'Parse error',
-                            data: error instanceof Error ? error.message : String(error)
-                        },
-                        id: null
-                    };
-                    ws.send(JSON.stringify(errorResponse));
+                },
+                isOpen: () => ws.readyState === WebSocket.OPEN,
+                close: (code?: number, reason?: string) => ws.close(code, reason)
+            };
+            this.clientConnections.add(connection);
+
+            // Drop clients that never present the shared secret
+            const authTimer = setTimeout(() => {
+                if (!connection.authenticated) {
+                    console.log('Client failed to authenticate in time, closing');
+                    ws.close(1008, 'Authentication timeout');
                 }
+            }, AUTH_TIMEOUT_MS);
+            
+            ws.on('message', (data: WebSocket.Data) => {
+                this.handleRawMessage(data.toString(), connection);
             });
 
             ws.on('close', () => {
                 console.log('Client disconnected');
-                // Clean up any active sessions for this connection
-                this.cleanupSessionsForConnection(ws);
-                this.clientConnections.delete(ws);
+                clearTimeout(authTimer);
+                this.handleDisconnect(connection);
             });
 
             ws.on('error', (error) => {
                 console.error('WebSocket error:', error);
-                this.cleanupSessionsForConnection(ws);
-                this.clientConnections.delete(ws);
+                clearTimeout(authTimer);
+                this.handleDisconnect(connection);
             });
+        });
+
+        console.log(`AIX Remote Server listening on port ${this.port}`);
+    }
+
+    /**
+     * Serve one client with newline-delimited JSON-RPC over a pair of streams.
+     * Used for `--stdio`, where the SSH session that started us already
+     * authenticated the user and the server lives exactly as long as it.
+     */
+    serveStdio(input: NodeJS.ReadableStream, output: NodeJS.WritableStream): void {
+        console.log('AIX Remote Server serving over stdio');
+
+        let open = true;
+        const connection: ClientConnection = {
+            id: `stdio_${process.pid}`,
+            authenticated: true,
+            inFlight: new Map(),
+            send: (message: RPCResponse | RPCResponse[]) => {
+                if (open) {
+                    output.write(JSON.stringify(message) + '\n');
+                }
+            },
+            isOpen: () => open,
+            close: () => {
+                if (open) {
+                    open = false;
+                    output.end();
+                }
+            }
+        };
+        this.clientConnections.add(connection);
+
+        let buffer = '';
+        input.setEncoding('utf8');
+        input.on('data', (chunk: string) => {
+            buffer += chunk;
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.slice(0, newline).trim();
+                buffer = buffer.slice(newline + 1);
+                if (line) {
+                    this.handleRawMessage(line, connection);
+                }
+            }
+        });
+
+        input.on('end', () => {
+            console.log('Stdio client disconnected');
+            open = false;
+            this.handleDisconnect(connection);
+        });
+    }
+
+    private async handleRawMessage(data: string, connection: ClientConnection): Promise<void> {
+        try {
+            const parsed = JSON.parse(data);
+            if (Array.isArray(parsed)) {
+                await this.handleBatch(parsed, connection);
+                return;
+            }
+
+            const message: RPCMessage = parsed;
+            const response = await this.handleMessage(message, connection);
+            
+            // Only send response if there is one (streaming commands return null)
+            if (response !== null) {
+                connection.send(response);
+            }
 
-            // Send welcome message
-            const welcome: RPCResponse = {
+            // A failed handshake ends the connection
+            if (message.method === 'auth.hello' && !connection.authenticated) {
+                connection.close(1008, 'Authentication failed');
+            }
+        } catch (error) {
+            const errorResponse: RPCResponse = {
                 jsonrpc: '2.0',
-                result: {
-                    message: 'Connected to AIX Remote Server',
-                    platform: os.platform(),
-                    arch: os.arch(),
-                    hostname: os.hostname(),
-                    ptySupported: !!pty,
-                    shell: process.env.SHELL || '/bin/sh'
+                error: {
+                    code: -32700,
+                    message: 'Parse error',
+                    data: error instanceof Error ? error.message : String(error)
                 },
-                id: 'welcome'
+                id: null
             };
-            ws.send(JSON.stringify(welcome));
-        });
+            connection.send(errorResponse);
+        }
+    }
 
-        console.log(`AIX Remote Server listening on port ${this.port}`);
+    /**
+     * A JSON-RPC batch. Its requests run concurrently and each response goes
+     * back as soon as it is ready, so a quick fs.stat does not wait for a
+     * slow command sent in the same batch; notifications get none.
+     */
+    private async handleBatch(messages: any[], connection: ClientConnection): Promise<void> {
+        if (messages.length === 0) {
+            connection.send({
+                jsonrpc: '2.0',
+                error: { code: -32600, message: 'Invalid Request', data: 'Empty batch' },
+                id: null
+            });
+            return;
+        }
+
+        await Promise.all(messages.map(async message => {
+            if (typeof message !== 'object' || message === null || typeof message.method !== 'string') {
+                connection.send({
+                    jsonrpc: '2.0',
+                    error: { code: -32600, message: 'Invalid Request' },
+                    id: null
+                });
+                return;
+            }
+            const response = await this.handleMessage(message, connection);
+            if (response !== null) {
+                connection.send(response);
+            }
+        }));
+
+        if (messages.some(message => message?.method === 'auth.hello') && !connection.authenticated) {
+            connection.close(1008, 'Authentication failed');
+        }
+    }
+
+    private handleDisconnect(connection: ClientConnection): void {
+        if (!this.clientConnections.has(connection)) {
+            return;
+        }
+        // Nobody is waiting for the answers any more
+        connection.inFlight.forEach(controller => controller.abort());
+        connection.inFlight.clear();
+        // Clean up any active sessions for this connection
+        this.cleanupSessionsForConnection(connection);
+        this.cleanupFilesForConnection(connection);
+        this.cleanupWatchesForConnection(connection);
+        this.cleanupProcessesForConnection(connection);
+        this.clientConnections.delete(connection);
     }
 
-    async handleMessage(message: RPCMessage, ws: WebSocket): Promise<RPCResponse | null> {
+    async handleMessage(message: RPCMessage, connection: ClientConnection): Promise<RPCResponse | null> {
         const { method, params, id } = message;
+
+        if (method === 'auth.hello') {
+            return this.handleAuthHello(params, id, connection);
+        }
+
+        if (!connection.authenticated) {
+            return {
+                jsonrpc: '2.0',
+                error: {
+                    code: RPC_UNAUTHORIZED,
+                    message: 'Unauthorized',
+                    data: 'auth.hello must succeed before any other request'
+                },
+                id: id ?? null
+            };
+        }
+
+        if (method === '$/cancelRequest') {
+            connection.inFlight.get(params?.id)?.abort();
+            return null;
+        }
+
+        // Long operations watch this signal and stop early when the client
+        // cancels the request or goes away
+        const controller = new AbortController();
+        const signal = controller.signal;
+        if (id !== undefined) {
+            connection.inFlight.set(id, controller);
+        }
         
         try {
             let result: any;
             
             switch (method) {
                 case 'fs.readDir':
-                    result = await this.readDirectory(params.path);
+                    result = await this.readDirectory(params.path, !!params.withStats, signal);
                     break;
                 case 'fs.readFile':
-                    result = await this.readFile(params.path);
+                    result = await this.readFile(params.path, signal);
                     break;
                 case 'fs.writeFile':
-                    result = await this.writeFile(params.path, params.content);
+                    result = await this.writeFile(params.path, params.content, writeFlags(params), params.precondition);
                     break;
                 case 'fs.stat':
                     result = await this.getStat(params.path);
                     break;
+                case 'fs.lstat':
+                    result = await this.getLinkStat(params.path);
+                    break;
+                case 'fs.readlink':
+                    result = await this.readLink(params.path);
+                    break;
+                case 'fs.mkdir':
+                    result = await this.createDirectory(params.path);
+                    break;
+                case 'fs.delete':
+                    result = await this.deletePath(params.path, !!params.recursive);
+                    break;
+                case 'fs.rename':
+                    result = await this.renamePath(params.oldPath, params.newPath, !!params.overwrite);
+                    break;
+                case 'fs.copy':
+                    result = await this.copyPath(params.source, params.destination, !!params.overwrite, signal);
+                    break;
+                case 'fs.open':
+                    result = await this.openFile(params.path, params.mode, writeFlags(params), params.precondition, connection);
+                    break;
+                case 'fs.read':
+                    result = await this.readChunk(params.handle, params.position, params.length, connection);
+                    break;
+                case 'fs.write':
+                    result = await this.writeChunk(params.handle, params.data, params.position, connection);
+                    break;
+                case 'fs.close':
+                    result = await this.closeFile(params.handle, !!params.abort, connection);
+                    break;
+                case 'fs.watch':
+                    // Changes stream back under the id of this request
+                    if (id === undefined) {
+                        throw new Error('Request ID is required for watching');
+                    }
+                    result = await this.startWatch(params.path, !!params.recursive, params.excludes || [], id, connection, signal);
+                    break;
+                case 'fs.unwatch':
+                    result = this.stopWatch(params.watchId, connection);
+                    break;
                 case 'terminal.exec':
-                    result = await this.executeCommand(params.command, params.cwd);
+                    result = await this.executeCommand(params.command, params.cwd, signal);
                     break;
                 case 'terminal.create':
                     // Create a new terminal session with PTY
                     if (id !== undefined) {
-                        this.createTerminalSession(params.cwd, params.cols, params.rows, id, ws);
+                        this.createTerminalSession(params.cwd, params.cols, params.rows, id, connection, params);
                     } else {
                         throw new Error('Session ID is required for terminal creation');
                     }
                     return null;
+                case 'terminal.attach':
+                    // Output streams back under the id of this request, like terminal.create
+                    if (id === undefined) {
+                        throw new Error('Request ID is required to attach to a terminal');
+                    }
+                    this.attachTerminalSession(params.sessionId, params.since || 0, !!params.flowControl, id, connection);
+                    return null;
+                case 'process.spawn':
+                    // Output streams back under the id of this request
+                    if (id === undefined) {
+                        throw new Error('Request ID is required to spawn a process');
+                    }
+                    this.spawnProcess(params.command, params, id, connection);
+                    return null;
+                case 'process.write':
+                    this.handleProcessWrite(params.processId, params.data, params.end, connection);
+                    result = { success: true };
+                    break;
+                case 'process.kill':
+                    this.handleProcessKill(params.processId, params.signal, connection);
+                    result = { success: true };
+                    break;
+                case 'terminal.list':
+                    result = this.listTerminalSessions();
+                    break;
                 case 'terminal.input':
-                    this.handleTerminalInput(params.sessionId, params.data);
-                    return { jsonrpc: '2.0', result: { success: true }, id: id || null };
+                    this.handleTerminalInput(params.sessionId, params.data, connection);
+                    result = { success: true };
+                    break;
+                case 'terminal.ack':
+                    this.handleTerminalAck(params.sessionId, params.chars, connection);
+                    result = { success: true };
+                    break;
                 case 'terminal.resize':
-                    this.handleTerminalResize(params.sessionId, params.cols, params.rows);
-                    return { jsonrpc: '2.0', result: { success: true }, id: id || null };
+                    this.handleTerminalResize(params.sessionId, params.cols, params.rows, connection);
+                    result = { success: true };
+                    break;
                 case 'terminal.kill':
-                    this.handleTerminalKill(params.sessionId, params.signal);
-                    return { jsonrpc: '2.0', result: { success: true }, id: id || null };
+                    await this.handleTerminalKill(params.sessionId, params.signal, connection);
+                    result = { success: true };
+                    break;
                 case 'system.info':
                     result = this.getSystemInfo();
                     break;
@@ -168,331 +647,1027 @@ class AIXRemoteServer {
                     throw new Error(`Unknown method: ${method}`);
             }
             
+            // Notifications get no reply, whatever became of them
+            if (id === undefined) {
+                return null;
+            }
             return {
                 jsonrpc: '2.0',
                 result,
-                id: id || null
+                id
             };
         } catch (error) {
+            if (id === undefined) {
+                console.error(`Notification ${method} failed:`, error instanceof Error ? error.message : error);
+                return null;
+            }
+            return {
+                jsonrpc: '2.0',
+                error: toRPCError(error),
+                id
+            };
+        } finally {
+            if (id !== undefined && connection.inFlight.get(id) === controller) {
+                connection.inFlight.delete(id);
+            }
+        }
+    }
+
+    private handleAuthHello(params: any, id: string | number | undefined, connection: ClientConnection): RPCResponse {
+        const presented = Buffer.from(typeof params?.token === 'string' ? params.token : '', 'utf8');
+        const valid = connection.authenticated || (!!this.authToken &&
+            presented.length === this.authToken.length &&
+            crypto.timingSafeEqual(presented, this.authToken));
+
+        if (!valid) {
+            console.log('Rejected client with invalid authentication token');
             return {
                 jsonrpc: '2.0',
                 error: {
-                    code: -32603,
-                    message: 'Internal error',
-                    data: error instanceof Error ? error.message : String(error)
+                    code: RPC_UNAUTHORIZED,
+                    message: 'Unauthorized',
+                    data: 'Invalid authentication token'
                 },
-                id: id || null
+                id: id ?? null
             };
         }
+
+        connection.authenticated = true;
+        console.log('Client authenticated');
+
+        return {
+            jsonrpc: '2.0',
+            result: {
+                message: 'Connected to AIX Remote Server',
+                platform: os.platform(),
+                arch: os.arch(),
+                hostname: os.hostname(),
+                ptySupported: !!pty,
+                shell: process.env.SHELL || '/bin/sh'
+            },
+            id: id ?? null
+        };
     }
 
-    private createTerminalSession(cwd: string = os.homedir(), cols: number = 80, rows: number = 30, sessionId: string | number, ws: WebSocket): void {
+    private createTerminalSession(cwd: string = os.homedir(), cols: number = 80, rows: number = 30, streamId: string | number,
+                                  connection: ClientConnection, options: TerminalOptions = {}): void {
+        const sessionId = options.sessionId || streamId;
+        if (this.activeSessions.has(sessionId)) {
+            throw new Error(`Terminal session ${sessionId} already exists`);
+        }
         console.log(`Creating terminal session: ${sessionId} (${cols}x${rows})`);
-        
-        if (pty) {
-            // Use node-pty for full terminal support
+
+        const gracePeriodMs = options.gracePeriod !== undefined
+            ? Math.min(Math.max(options.gracePeriod * 1000, 0), MAX_SESSION_GRACE_MS)
+            : DEFAULT_SESSION_GRACE_MS;
+        const session: TerminalSession = {
+            id: sessionId,
+            process: null,
+            type: 'pty',
+            cwd,
+            shell: options.shell || process.env.SHELL || '/bin/bash',
+            args: [...(options.login ? ['-l'] : []), ...(options.args || [])],
+            env: { ...process.env, ...options.env, TERM: options.term || DEFAULT_TERM },
+            term: options.term || DEFAULT_TERM,
+            name: options.name,
+            createdAt: Date.now(),
+            connection,
+            streamId,
+            output: new OutputBuffer(SESSION_OUTPUT_BUFFER_SIZE),
+            gracePeriodMs,
+            pendingOutput: '',
+            flowControl: !!options.flowControl,
+            unacknowledged: 0,
+            paused: false
+        };
+        if (options.shellIntegration) {
             try {
-                const shell = process.env.SHELL || '/bin/bash';
-                const ptyProcess = pty.spawn(shell, [], {
-                    name: 'xterm-color',
-                    cols: cols,
-                    rows: rows,
-                    cwd: cwd,
-                    env: process.env
-                });
+                const launch = withShellIntegration(session.shell, session.args, session.env);
+                if (launch) {
+                    session.args = launch.args;
+                    session.env = launch.env;
+                }
+            } catch (error) {
+                // The shell still starts, just without integration
+                console.error(`Failed to set up shell integration for session ${sessionId}:`, error);
+            }
+        }
 
-                const session: TerminalSession = {
-                    process: ptyProcess,
-                    type: 'pty',
-                    cwd: cwd
-                };
-
-                this.activeSessions.set(sessionId, session);
-
-                // Handle PTY data
-                ptyProcess.onData((data: string) => {
-                    const response: RPCResponse = {
-                        jsonrpc: '2.0',
-                        result: {
-                            type: 'data',
-                            data: data
-                        },
-                        id: sessionId
-                    };
-                    if (ws.readyState === WebSocket.OPEN) {
-                        ws.send(JSON.stringify(response));
-                    }
-                });
+        for (const mode of this.terminalModes) {
+            try {
+                if (this.startTerminalProcess(session, mode, cols, rows)) {
+                    return;
+                }
+            } catch (error) {
+                console.error(`Failed to start ${mode} terminal session: ${error}`);
+            }
+        }
+        this.startTerminalProcess(session, 'spawn', cols, rows);
+    }
 
-                // Handle PTY exit
-                ptyProcess.onExit(({ exitCode, signal }: { exitCode: number; signal?: number }) => {
-                    console.log(`PTY session ${sessionId} exited with code: ${exitCode}, signal: ${signal}`);
-                    const response: RPCResponse = {
-                        jsonrpc: '2.0',
-                        result: {
-                            type: 'exit',
-                            exitCode: exitCode,
-                            signal: signal
-                        },
-                        id: sessionId
-                    };
-                    if (ws.readyState === WebSocket.OPEN) {
-                        ws.send(JSON.stringify(response));
-                    }
-                    this.activeSessions.delete(sessionId);
-                });
+    /**
+     * Start the session's shell in the given mode. Returns false when the
+     * mode is not available on this host.
+     */
+    private startTerminalProcess(session: TerminalSession, mode: TerminalMode, cols: number, rows: number): boolean {
+        if (mode === 'pty') {
+            if (!pty) {
+                return false;
+            }
+            const ptyProcess = pty.spawn(session.shell, session.args, {
+                name: session.term,
+                cols: cols,
+                rows: rows,
+                cwd: session.cwd,
+                env: session.env
+            });
 
-                // Send ready signal
-                const readyResponse: RPCResponse = {
-                    jsonrpc: '2.0',
-                    result: {
-                        type: 'ready',
-                        pid: ptyProcess.pid,
-                        shell: shell
-                    },
-                    id: sessionId
-                };
-                ws.send(JSON.stringify(readyResponse));
+            session.process = ptyProcess;
+            session.type = 'pty';
+            this.activeSessions.set(session.id, session);
 
-            } catch (error) {
-                console.error(`Failed to create PTY session: ${error}`);
-                this.fallbackToSpawn(cwd, sessionId, ws);
+            // Handle PTY data
+            ptyProcess.onData((data: string) => {
+                this.emitSessionOutput(session, data);
+            });
+
+            // Handle PTY exit
+            ptyProcess.onExit(({ exitCode, signal }: { exitCode: number; signal?: number }) => {
+                console.log(`PTY session ${session.id} exited with code: ${exitCode}, signal: ${signal}`);
+                this.flushSessionOutput(session);
+                this.sendToSession(session, { type: 'exit', exitCode: exitCode, signal: signal });
+                this.removeSession(session);
+            });
+
+            // Send ready signal
+            this.sendToSession(session, { type: 'ready', pid: ptyProcess.pid, shell: session.shell, sessionId: session.id, mode: 'pty' });
+            return true;
+        }
+
+        const command = this.terminalCommand(session, mode, cols, rows);
+        if (!command) {
+            return false;
+        }
+        this.spawnTerminalProcess(session, mode, command.file, command.args);
+        return true;
+    }
+
+    /**
+     * The command line that runs the session's shell in script or helper
+     * mode, already sized to the client's terminal
+     */
+    private terminalCommand(session: TerminalSession, mode: TerminalMode, cols: number, rows: number): { file: string; args: string[] } | undefined {
+        cols = Math.floor(Number(cols)) || 80;
+        rows = Math.floor(Number(rows)) || 30;
+        switch (mode) {
+            case 'script': {
+                const script = findExecutable('script');
+                if (!script) {
+                    return undefined;
+                }
+                const shellCommand = `stty rows ${rows} columns ${cols} 2>/dev/null; exec ${[session.shell, ...session.args].map(shellQuote).join(' ')}`;
+                if (os.platform() === 'linux') {
+                    // util-linux: flush as output arrives and pass on the shell's exit status
+                    return { file: script, args: ['-q', '-f', '-e', '-c', shellCommand, '/dev/null'] };
+                }
+                // AIX script has no -c and always runs $SHELL, so that becomes
+                // a wrapper that removes itself and starts the real shell
+                const wrapper = path.join(os.tmpdir(), `aix-remote-shell-${crypto.randomBytes(8).toString('hex')}.sh`);
+                fs.writeFileSync(wrapper, `#!/bin/sh\nrm -f "$0"\nSHELL=${shellQuote(String(session.env.SHELL || session.shell))}; export SHELL\n${shellCommand}\n`, { mode: 0o700 });
+                session.env = { ...session.env, SHELL: wrapper };
+                return { file: script, args: ['-q', '/dev/null'] };
             }
-        } else {
-            // Fallback to spawn
-            this.fallbackToSpawn(cwd, sessionId, ws);
+            case 'helper': {
+                const python = findExecutable('python3') || findExecutable('python');
+                if (!python) {
+                    return undefined;
+                }
+                return { file: python, args: ['-c', PTY_HELPER_SOURCE, String(rows), String(cols), session.shell, ...session.args] };
+            }
+            case 'spawn':
+                // Interactive shell
+                return { file: session.shell, args: withInteractiveFlag(session.args) };
+            default:
+                return undefined;
         }
     }
 
-    private fallbackToSpawn(cwd: string, sessionId: string | number, ws: WebSocket): void {
-        console.log(`Using spawn fallback for session: ${sessionId}`);
-        
-        const shell = process.env.SHELL || '/bin/bash';
-        const child = spawn(shell, ['-i'], {  // Interactive shell
-            cwd,
+    private spawnTerminalProcess(session: TerminalSession, mode: TerminalMode, file: string, args: string[]): void {
+        console.log(`Using ${mode} terminal for session: ${session.id}`);
+
+        const child = spawn(file, args, {
+            cwd: session.cwd,
             stdio: 'pipe',
-            env: process.env
+            env: session.env
         });
 
-        const session: TerminalSession = {
-            process: child,
-            type: 'spawn',
-            cwd: cwd
-        };
-
-        this.activeSessions.set(sessionId, session);
+        session.process = child;
+        session.type = mode;
+        this.activeSessions.set(session.id, session);
 
-        // Stream stdout
+        // Stream stdout and stderr
         child.stdout?.on('data', (data: Buffer) => {
-            const response: RPCResponse = {
-                jsonrpc: '2.0',
-                result: {
-                    type: 'data',
-                    data: data.toString()
-                },
-                id: sessionId
-            };
-            if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify(response));
-            }
+            this.emitSessionOutput(session, data.toString());
         });
 
-        // Stream stderr
         child.stderr?.on('data', (data: Buffer) => {
-            const response: RPCResponse = {
-                jsonrpc: '2.0',
-                result: {
-                    type: 'data',
-                    data: data.toString()
-                },
-                id: sessionId
-            };
-            if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify(response));
-            }
+            this.emitSessionOutput(session, data.toString());
         });
 
         // Handle process exit
         child.on('close', (code: number | null) => {
-            console.log(`Spawn session ${sessionId} exited with code: ${code}`);
-            const response: RPCResponse = {
-                jsonrpc: '2.0',
-                result: {
-                    type: 'exit',
-                    exitCode: code || 0
-                },
-                id: sessionId
-            };
-            if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify(response));
-            }
-            this.activeSessions.delete(sessionId);
+            console.log(`${mode} session ${session.id} exited with code: ${code}`);
+            this.flushSessionOutput(session);
+            this.sendToSession(session, { type: 'exit', exitCode: code || 0 });
+            this.removeSession(session);
         });
 
         child.on('error', (error: Error) => {
             console.error(`Spawn session error: ${error}`);
-            const response: RPCResponse = {
-                jsonrpc: '2.0',
-                error: {
-                    code: -32603,
-                    message: 'Terminal session error',
-                    data: error.message
-                },
-                id: sessionId
-            };
-            if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify(response));
+            if (session.connection) {
+                session.connection.send({
+                    jsonrpc: '2.0',
+                    error: {
+                        code: -32603,
+                        message: 'Terminal session error',
+                        data: error.message
+                    },
+                    id: session.streamId
+                });
             }
-            this.activeSessions.delete(sessionId);
+            this.removeSession(session);
         });
 
         // Send ready signal
-        const readyResponse: RPCResponse = {
-            jsonrpc: '2.0',
-            result: {
-                type: 'ready',
-                pid: child.pid,
-                shell: shell
-            },
-            id: sessionId
-        };
-        ws.send(JSON.stringify(readyResponse));
+        this.sendToSession(session, { type: 'ready', pid: child.pid, shell: session.shell, sessionId: session.id, mode });
     }
 
-    private handleTerminalInput(sessionId: string | number, data: string): void {
-        const session = this.activeSessions.get(sessionId);
-        if (session) {
-            try {
-                if (session.type === 'pty') {
-                    // PTY handles input directly
-                    session.process.write(data);
-                } else {
-                    // Spawn needs stdin
-                    if (session.process.stdin && !session.process.stdin.destroyed) {
-                        session.process.stdin.write(data);
-                    }
-                }
-            } catch (error) {
-                console.error(`Failed to write to terminal session ${sessionId}:`, error);
-            }
+    private emitSessionOutput(session: TerminalSession, data: string): void {
+        session.output.append(data);
+        if (!session.connection) {
+            // Kept in the output buffer for when the client reattaches
+            return;
         }
-    }
 
-    private handleTerminalResize(sessionId: string | number, cols: number, rows: number): void {
-        const session = this.activeSessions.get(sessionId);
-        if (session && session.type === 'pty') {
-            try {
-                session.process.resize(cols, rows);
-                console.log(`Resized terminal ${sessionId} to ${cols}x${rows}`);
-            } catch (error) {
-                console.error(`Failed to resize terminal ${sessionId}:`, error);
-            }
+        session.pendingOutput += data;
+        if (session.pendingOutput.length >= OUTPUT_COALESCE_MAX) {
+            this.flushSessionOutput(session);
+        } else if (!session.flushTimer) {
+            session.flushTimer = setTimeout(() => this.flushSessionOutput(session), OUTPUT_COALESCE_MS);
         }
     }
 
-    private handleTerminalKill(sessionId: string | number, signal: string = 'SIGTERM'): void {
+    private flushSessionOutput(session: TerminalSession): void {
+        if (session.flushTimer) {
+            clearTimeout(session.flushTimer);
+            session.flushTimer = undefined;
+        }
+        const data = session.pendingOutput;
+        session.pendingOutput = '';
+        if (data) {
+            this.sendSessionData(session, data);
+        }
+    }
+
+    private sendSessionData(session: TerminalSession, data: string): void {
+        this.sendToSession(session, { type: 'data', data });
+        if (session.flowControl) {
+            session.unacknowledged += data.length;
+            if (session.unacknowledged > FLOW_CONTROL_HIGH_WATERMARK) {
+                this.setSessionPaused(session, true);
+            }
+        }
+    }
+
+    /**
+     * The client has shown this many more characters of the session's output
+     */
+    private handleTerminalAck(sessionId: string | number, chars: number, connection: ClientConnection): void {
+        const session = this.getOwnedSession(sessionId, connection);
+        if (!session) {
+            return;
+        }
+        session.unacknowledged = Math.max(0, session.unacknowledged - chars);
+        if (session.unacknowledged < FLOW_CONTROL_LOW_WATERMARK) {
+            this.setSessionPaused(session, false);
+        }
+    }
+
+    /**
+     * Stop reading the shell's output, so it blocks on a full pipe until the
+     * client catches up
+     */
+    private setSessionPaused(session: TerminalSession, paused: boolean): void {
+        if (session.paused === paused) {
+            return;
+        }
+        session.paused = paused;
+        // Older node-pty builds cannot pause
+        const streams = session.type === 'pty'
+            ? (typeof session.process.pause === 'function' ? [session.process] : [])
+            : [session.process.stdout, session.process.stderr];
+        for (const stream of streams) {
+            if (paused) {
+                stream.pause();
+            } else {
+                stream.resume();
+            }
+        }
+    }
+
+    private sendToSession(session: TerminalSession, result: any): void {
+        if (session.connection) {
+            session.connection.send({ jsonrpc: '2.0', result, id: session.streamId });
+        }
+    }
+
+    private removeSession(session: TerminalSession): void {
+        if (session.detachTimer) {
+            clearTimeout(session.detachTimer);
+        }
+        if (session.flushTimer) {
+            clearTimeout(session.flushTimer);
+        }
+        if (this.activeSessions.get(session.id) === session) {
+            this.activeSessions.delete(session.id);
+        }
+    }
+
+    private endSession(session: TerminalSession, signal: string): void {
+        this.killSession(session, signal).catch(error => {
+            console.error(`Failed to kill terminal session ${session.id}:`, error);
+        });
+    }
+
+    private async killSession(session: TerminalSession, signal: string): Promise<void> {
+        const emulated = session.type === 'script' || session.type === 'helper';
+        if (emulated && signal !== 'SIGHUP') {
+            await this.signalPtyShell(session, signal);
+        } else if (emulated) {
+            // Takes the pty away, which hangs up everything running on it as
+            // closing a terminal window would
+            session.process.kill('SIGKILL');
+        } else {
+            session.process.kill(signal);
+        }
+        // Only now: a session whose kill failed still has a process to account for
+        this.removeSession(session);
+    }
+
+    /**
+     * Resume streaming a detached session to this connection, starting with
+     * the output produced after `since` (characters since the session began)
+     */
+    private attachTerminalSession(sessionId: string | number, since: number, flowControl: boolean, streamId: string | number,
+                                  connection: ClientConnection): void {
         const session = this.activeSessions.get(sessionId);
+        if (!session) {
+            throw new Error(`Terminal session ${sessionId} no longer exists`);
+        }
+        if (session.connection && session.connection !== connection && session.connection.isOpen()) {
+            throw new Error(`Terminal session ${sessionId} is attached to another client`);
+        }
+
+        // A connection that is closing but not yet cleaned up loses the session
+        console.log(`Reattaching terminal session ${sessionId}`);
+        if (session.detachTimer) {
+            clearTimeout(session.detachTimer);
+            session.detachTimer = undefined;
+        }
+        session.connection = connection;
+        session.streamId = streamId;
+        session.detachedAt = undefined;
+        // Whatever was pending is part of the replay
+        this.resetSessionOutput(session);
+        session.flowControl = flowControl;
+
+        const missed = session.output.since(since);
+        this.sendToSession(session, {
+            type: 'ready',
+            pid: session.process.pid,
+            shell: session.shell,
+            sessionId,
+            mode: session.type,
+            reattached: true,
+            truncated: missed.truncated
+        });
+        if (missed.data) {
+            this.sendSessionData(session, missed.data);
+        }
+    }
+
+    /**
+     * Forget output and acknowledgements owed to the previous connection
+     */
+    private resetSessionOutput(session: TerminalSession): void {
+        if (session.flushTimer) {
+            clearTimeout(session.flushTimer);
+            session.flushTimer = undefined;
+        }
+        session.pendingOutput = '';
+        session.unacknowledged = 0;
+        this.setSessionPaused(session, false);
+    }
+
+    private listTerminalSessions(): any[] {
+        return Array.from(this.activeSessions.values()).map(session => ({
+            sessionId: session.id,
+            name: session.name,
+            pid: session.process.pid,
+            cwd: session.cwd,
+            shell: session.shell,
+            mode: session.type,
+            createdAt: session.createdAt,
+            detachedAt: session.detachedAt,
+            attached: session.connection !== null
+        }));
+    }
+
+    /**
+     * Look up a session on behalf of a client. Only the connection a session
+     * is attached to may drive it; anyone else has to attach first.
+     */
+    private getOwnedSession(sessionId: string | number, connection: ClientConnection): TerminalSession | undefined {
+        const session = this.activeSessions.get(sessionId);
+        if (session && session.connection !== connection) {
+            throw new Error(`Terminal session ${sessionId} belongs to another client`);
+        }
+        return session;
+    }
+
+    private handleTerminalInput(sessionId: string | number, data: string, connection: ClientConnection): void {
+        const session = this.getOwnedSession(sessionId, connection);
         if (session) {
             try {
-                console.log(`Killing terminal session ${sessionId} with signal ${signal}`);
                 if (session.type === 'pty') {
-                    session.process.kill(signal);
+                    // PTY handles input directly
+                    session.process.write(data);
                 } else {
-                    session.process.kill(signal);
+                    // Spawn needs stdin
+                    if (session.process.stdin && !session.process.stdin.destroyed) {
+                        session.process.stdin.write(data);
+                    }
                 }
-                this.activeSessions.delete(sessionId);
             } catch (error) {
-                console.error(`Failed to kill terminal session ${sessionId}:`, error);
+                console.error(`Failed to write to terminal session ${sessionId}:`, error);
             }
         }
     }
 
-    private cleanupSessionsForConnection(ws: WebSocket): void {
-        console.log('Cleaning up terminal sessions for disconnected client');
-        for (const [sessionId, session] of this.activeSessions.entries()) {
+    private handleTerminalResize(sessionId: string | number, cols: number, rows: number, connection: ClientConnection): void {
+        const session = this.getOwnedSession(sessionId, connection);
+        if (session && session.type === 'pty') {
             try {
-                if (session.type === 'pty') {
-                    session.process.kill('SIGTERM');
-                } else {
-                    session.process.kill('SIGTERM');
-                }
-                console.log(`Killed terminal session ${sessionId}`);
+                session.process.resize(cols, rows);
+                console.log(`Resized terminal ${sessionId} to ${cols}x${rows}`);
             } catch (error) {
-                console.log(`Failed to kill terminal session ${sessionId}:`, error);
+                console.error(`Failed to resize terminal ${sessionId}:`, error);
+            }
+        } else if (session && session.type !== 'spawn') {
+            this.resizeWithStty(session, cols, rows).then(
+                () => console.log(`Resized terminal ${sessionId} to ${cols}x${rows}`),
+                error => console.error(`Failed to resize terminal ${sessionId}:`, error));
+        }
+    }
+
+    /**
+     * Resize the pty of a script or helper session. The kernel sends the
+     * shell's foreground job SIGWINCH, as it would for node-pty.
+     */
+    private async resizeWithStty(session: TerminalSession, cols: number, rows: number): Promise<void> {
+        cols = Math.floor(Number(cols));
+        rows = Math.floor(Number(rows));
+        if (!(cols > 0 && rows > 0)) {
+            throw new Error(`Invalid terminal size ${cols}x${rows}`);
+        }
+        const shell = await this.findPtyShell(session);
+        // O_NOCTTY: the server must not adopt the shell's terminal
+        const handle = await fs.promises.open(shell.tty, fs.constants.O_RDONLY | fs.constants.O_NOCTTY);
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const stty = spawn('stty', ['rows', String(rows), 'columns', String(cols)], { stdio: [handle.fd, 'ignore', 'pipe'] });
+                let stderr = '';
+                stty.stderr?.on('data', (data: Buffer) => stderr += data.toString());
+                stty.on('error', reject);
+                stty.on('close', code => code === 0 ? resolve() : reject(new Error(stderr.trim() || `stty exited with code ${code}`)));
+            });
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * script(1) does not pass signals on to the shell, so they go to the
+     * shell directly
+     */
+    private async signalPtyShell(session: TerminalSession, signal: string): Promise<void> {
+        const shell = await this.findPtyShell(session);
+        process.kill(shell.pid, signal);
+    }
+
+    private async findPtyShell(session: TerminalSession): Promise<PtyShell> {
+        if (!session.ptyShell) {
+            session.ptyShell = await findPtyChild(session.process.pid);
+        }
+        return session.ptyShell;
+    }
+
+    private async handleTerminalKill(sessionId: string | number, signal: string | undefined, connection: ClientConnection): Promise<void> {
+        const session = this.getOwnedSession(sessionId, connection);
+        if (session) {
+            signal = checkSignal(signal || 'SIGTERM');
+            console.log(`Killing terminal session ${sessionId} with signal ${signal}`);
+            await this.killSession(session, signal);
+        }
+    }
+
+    /**
+     * Detach the connection's sessions rather than kill them, so a client
+     * that lost its connection can reattach within the grace period
+     */
+    private cleanupSessionsForConnection(connection: ClientConnection): void {
+        console.log('Detaching terminal sessions for disconnected client');
+        for (const session of Array.from(this.activeSessions.values())) {
+            if (session.connection !== connection) {
+                continue;
             }
+            session.connection = null;
+            // Nobody to wait for; output goes to the buffer until a reattach
+            this.resetSessionOutput(session);
+            if (session.gracePeriodMs <= 0) {
+                console.log(`Killed terminal session ${session.id}`);
+                this.endSession(session, 'SIGHUP');
+                continue;
+            }
+
+            session.detachedAt = Date.now();
+            session.detachTimer = setTimeout(() => {
+                console.log(`Terminal session ${session.id} was not reattached in time, killing it`);
+                this.endSession(session, 'SIGHUP');
+            }, session.gracePeriodMs);
+            session.detachTimer.unref();
         }
-        this.activeSessions.clear();
     }
 
     // File system methods (unchanged)
-    async readDirectory(dirPath: string): Promise<any[]> {
+    /**
+     * List a directory. With `withStats` each entry also carries what fs.stat
+     * would return for it, saving the client a round trip per entry.
+     */
+    async readDirectory(dirPath: string, withStats: boolean = false, signal?: AbortSignal): Promise<any[]> {
+        const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+        const describe = async (entry: fs.Dirent) => {
+            const entryPath = path.join(dirPath, entry.name);
+            const result: any = {
+                name: entry.name,
+                type: entry.isDirectory() ? 'directory' :
+                      entry.isSymbolicLink() ? 'symlink' : 'file',
+                path: entryPath
+            };
+            if (entry.isSymbolicLink()) {
+                // Say what the link points at, so linked directories can be expanded
+                Object.assign(result, await describeLink(entryPath));
+            }
+            if (withStats) {
+                // An entry may vanish while we list; report it without metadata
+                result.stat = await this.getStat(entryPath).catch(() => undefined);
+            }
+            return result;
+        };
+
+        // In batches, so a cancelled listing of a huge directory stops early
+        const results: any[] = [];
+        for (let start = 0; start < entries.length; start += READ_DIRECTORY_BATCH) {
+            checkAborted(signal);
+            results.push(...await Promise.all(entries.slice(start, start + READ_DIRECTORY_BATCH).map(describe)));
+        }
+        return results;
+    }
+
+    // File contents travel as base64 so binaries survive the JSON round trip
+    async readFile(filePath: string, signal?: AbortSignal): Promise<string> {
         return new Promise((resolve, reject) => {
-            fs.readdir(dirPath, { withFileTypes: true }, (err, entries) => {
+            fs.readFile(filePath, { signal }, (err, data) => {
                 if (err) {
                     reject(err);
                     return;
                 }
-                const result = entries.map(entry => ({
-                    name: entry.name,
-                    type: entry.isDirectory() ? 'directory' :
-                          entry.isSymbolicLink() ? 'symlink' : 'file',
-                    path: path.join(dirPath, entry.name)
-                }));
-                resolve(result);
+                resolve(data.toString('base64'));
             });
         });
     }
 
-    async readFile(filePath: string): Promise<string> {
+    async writeFile(filePath: string, content: string, flags: WriteFlags, precondition?: WritePrecondition): Promise<any> {
+        // Write beside the target and rename over it, so readers never see a
+        // half-written file
+        const target = await this.resolveWriteTarget(filePath, flags);
+        const tmpPath = this.temporaryPathFor(target.path);
+        try {
+            const file = await fs.promises.open(tmpPath, 'wx', target.mode);
+            try {
+                await file.writeFile(Buffer.from(content, 'base64'));
+                await file.sync();
+            } finally {
+                await file.close();
+            }
+            return await this.commitWrite(tmpPath, target.path, precondition);
+        } catch (error) {
+            await fs.promises.unlink(tmpPath).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    /**
+     * Writes replace the file a symlink points at rather than the link itself,
+     * and keep the permissions of the file they replace
+     */
+    private async resolveWriteTarget(filePath: string, flags: WriteFlags): Promise<{ path: string; mode: number }> {
+        let realPath: string;
+        try {
+            realPath = await fs.promises.realpath(filePath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            if (!flags.create) {
+                throw errnoError('ENOENT', 'no such file or directory', filePath);
+            }
+            return { path: filePath, mode: 0o644 };
+        }
+
+        const stats = await fs.promises.stat(realPath);
+        if (stats.isDirectory()) {
+            throw errnoError('EISDIR', 'illegal operation on a directory', filePath);
+        }
+        if (!flags.overwrite) {
+            throw errnoError('EEXIST', 'file already exists', filePath);
+        }
+        // rename(2) only needs the directory to be writable; keep refusing
+        // to replace files the user could not have written in place
+        await fs.promises.access(realPath, fs.constants.W_OK);
+        return { path: realPath, mode: stats.mode & 0o7777 };
+    }
+
+    private temporaryPathFor(filePath: string): string {
+        return path.join(path.dirname(filePath),
+            `.${path.basename(filePath)}.aix-remote-${process.pid}-${++this.nextTempFile}.tmp`);
+    }
+
+    private async commitWrite(tmpPath: string, filePath: string, precondition?: WritePrecondition): Promise<any> {
+        // Check as late as possible to keep the window for a lost update small
+        await this.checkPrecondition(filePath, precondition);
+        await fs.promises.rename(tmpPath, filePath);
+        const stats = await fs.promises.stat(filePath);
+        return { mtime: Math.trunc(stats.mtimeMs), size: stats.size };
+    }
+
+    private async checkPrecondition(filePath: string, precondition?: WritePrecondition): Promise<void> {
+        if (!precondition) {
+            return;
+        }
+
+        let stats: fs.Stats;
+        try {
+            stats = await fs.promises.stat(filePath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                // Deleted since it was read; writing it again loses nothing
+                return;
+            }
+            throw error;
+        }
+
+        if (Math.trunc(stats.mtimeMs) === precondition.mtime && stats.size === precondition.size) {
+            return;
+        }
+        // Touched but not changed, e.g. by a build or `touch`
+        if (precondition.hash && stats.size === precondition.size &&
+            await hashFile(filePath) === precondition.hash) {
+            return;
+        }
+        throw new WriteConflictError(filePath, { mtime: Math.trunc(stats.mtimeMs), size: stats.size });
+    }
+
+    /**
+     * Stat that follows links, like stat(2), but still reports whether the
+     * path itself is a link. A broken link is described by lstat.
+     */
+    async getStat(filePath: string): Promise<any> {
+        const linkStats = await fs.promises.lstat(filePath);
+        if (!linkStats.isSymbolicLink()) {
+            return this.toStatResult(filePath, linkStats, false);
+        }
+
+        try {
+            return await this.toStatResult(filePath, await fs.promises.stat(filePath), true);
+        } catch (error) {
+            const code = (error as NodeJS.ErrnoException).code;
+            if (code !== 'ENOENT' && code !== 'ELOOP') {
+                throw error;
+            }
+            return { ...await this.toStatResult(filePath, linkStats, true), broken: true };
+        }
+    }
+
+    async getLinkStat(filePath: string): Promise<any> {
+        const stats = await fs.promises.lstat(filePath);
+        const result = await this.toStatResult(filePath, stats, stats.isSymbolicLink());
+        if (stats.isSymbolicLink()) {
+            result.target = await fs.promises.readlink(filePath);
+        }
+        return result;
+    }
+
+    async readLink(filePath: string): Promise<string> {
+        return fs.promises.readlink(filePath);
+    }
+
+    private async toStatResult(filePath: string, stats: fs.Stats, isSymbolicLink: boolean): Promise<any> {
+        return {
+            size: stats.size,
+            isFile: stats.isFile(),
+            isDirectory: stats.isDirectory(),
+            isSymbolicLink,
+            modified: stats.mtime,
+            // Exactly as write preconditions are checked; the Date is rounded
+            mtime: Math.trunc(stats.mtimeMs),
+            created: stats.birthtime,
+            mode: stats.mode,
+            // Whether this user may write it; the mode bits alone
+            // do not say which of owner, group or other applies
+            writable: await isWritable(filePath)
+        };
+    }
+
+    async createDirectory(dirPath: string): Promise<boolean> {
         return new Promise((resolve, reject) => {
-            fs.readFile(filePath, 'utf8', (err, data) => {
+            fs.mkdir(dirPath, (err) => {
                 if (err) {
                     reject(err);
                     return;
                 }
-                resolve(data);
+                resolve(true);
             });
         });
     }
 
-    async writeFile(filePath: string, content: string): Promise<boolean> {
-        return new Promise((resolve, reject) => {
-            fs.writeFile(filePath, content, 'utf8', (err) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
-                resolve(true);
+    async deletePath(targetPath: string, recursive: boolean): Promise<boolean> {
+        const stats = await fs.promises.lstat(targetPath);
+        if (!stats.isDirectory()) {
+            await fs.promises.unlink(targetPath);
+        } else if (recursive) {
+            await fs.promises.rm(targetPath, { recursive: true });
+        } else {
+            await fs.promises.rmdir(targetPath);
+        }
+        return true;
+    }
+
+    async renamePath(oldPath: string, newPath: string, overwrite: boolean): Promise<boolean> {
+        // The source has to exist before anything at the destination is touched
+        await fs.promises.lstat(oldPath);
+        const existing = path.resolve(oldPath) === path.resolve(newPath) ? null : await this.lstatIfExists(newPath);
+        if (existing) {
+            if (!overwrite) {
+                throw errnoError('EEXIST', 'file already exists', newPath);
+            }
+            // rename(2) cannot replace a non-empty directory
+            if (existing.isDirectory()) {
+                await this.replaceDirectory(oldPath, newPath);
+                return true;
+            }
+        }
+        await fs.promises.rename(oldPath, newPath);
+        return true;
+    }
+
+    async copyPath(source: string, destination: string, overwrite: boolean, signal?: AbortSignal): Promise<boolean> {
+        await fs.promises.lstat(source);
+        const from = path.resolve(source);
+        const to = path.resolve(destination);
+        if (to === from || to.startsWith(from.endsWith(path.sep) ? from : from + path.sep)) {
+            throw errnoError('EINVAL', 'cannot copy a path onto itself or into itself', destination);
+        }
+        const existing = await this.lstatIfExists(destination);
+        if (existing && !overwrite) {
+            throw errnoError('EEXIST', 'file already exists', destination);
+        }
+
+        // Copied next to the destination first, so a failed or cancelled
+        // copy leaves whatever was there alone
+        const tmpPath = this.temporaryPathFor(destination);
+        try {
+            await this.copyRecursive(source, tmpPath, signal);
+            if (existing && existing.isDirectory()) {
+                await this.replaceDirectory(tmpPath, destination);
+            } else {
+                await fs.promises.rename(tmpPath, destination);
+            }
+        } catch (error) {
+            await fs.promises.rm(tmpPath, { recursive: true, force: true });
+            throw error;
+        }
+        return true;
+    }
+
+    /**
+     * Rename over an existing directory: it is moved aside, and put back if
+     * the rename fails
+     */
+    private async replaceDirectory(from: string, directory: string): Promise<void> {
+        const aside = this.temporaryPathFor(directory);
+        await fs.promises.rename(directory, aside);
+        try {
+            await fs.promises.rename(from, directory);
+        } catch (error) {
+            await fs.promises.rename(aside, directory);
+            throw error;
+        }
+        await fs.promises.rm(aside, { recursive: true });
+    }
+
+    private async copyRecursive(source: string, destination: string, signal?: AbortSignal): Promise<void> {
+        checkAborted(signal);
+        const stats = await fs.promises.lstat(source);
+        if (stats.isDirectory()) {
+            await fs.promises.mkdir(destination, { mode: stats.mode & 0o7777 });
+            for (const name of await fs.promises.readdir(source)) {
+                await this.copyRecursive(path.join(source, name), path.join(destination, name), signal);
+            }
+        } else if (stats.isSymbolicLink()) {
+            await fs.promises.symlink(await fs.promises.readlink(source), destination);
+        } else {
+            await fs.promises.copyFile(source, destination);
+            await fs.promises.chmod(destination, stats.mode & 0o7777);
+        }
+    }
+
+    private async lstatIfExists(targetPath: string): Promise<fs.Stats | null> {
+        try {
+            return await fs.promises.lstat(targetPath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    // Chunked transfer for files too large for a single message
+    async openFile(filePath: string, mode: 'read' | 'write' = 'read', flags: WriteFlags,
+                   precondition: WritePrecondition | undefined, connection: ClientConnection): Promise<any> {
+        const handle = `fh_${++this.nextFileHandle}`;
+
+        if (mode === 'read') {
+            const fd = await new Promise<number>((resolve, reject) => {
+                fs.open(filePath, 'r', (err, fd) => err ? reject(err) : resolve(fd));
             });
+            const stats = await new Promise<fs.Stats>((resolve, reject) => {
+                fs.fstat(fd, (err, stats) => err ? reject(err) : resolve(stats));
+            });
+            this.openFiles.set(handle, { fd, path: filePath, mode, connection });
+            return { handle, size: stats.size };
+        }
+
+        // Refuse a stale upload before any data is sent; it is checked again on close
+        await this.checkPrecondition(filePath, precondition);
+        const target = await this.resolveWriteTarget(filePath, flags);
+        const tmpPath = this.temporaryPathFor(target.path);
+        const fd = await new Promise<number>((resolve, reject) => {
+            fs.open(tmpPath, 'wx', target.mode, (err, fd) => err ? reject(err) : resolve(fd));
         });
+        this.openFiles.set(handle, { fd, path: target.path, mode, tmpPath, precondition, connection });
+        return { handle, size: 0 };
     }
 
-    async getStat(filePath: string): Promise<any> {
-        return new Promise((resolve, reject) => {
-            fs.stat(filePath, (err, stats) => {
-                if (err) {
-                    reject(err);
-                    return;
+    async readChunk(handle: string, position: number, length: number, connection: ClientConnection): Promise<any> {
+        const file = this.getOpenFile(handle, connection);
+        const buffer = Buffer.alloc(Math.max(0, Math.min(length, MAX_CHUNK_SIZE)));
+        const bytesRead = await new Promise<number>((resolve, reject) => {
+            fs.read(file.fd, buffer, 0, buffer.length, position, (err, bytesRead) => err ? reject(err) : resolve(bytesRead));
+        });
+        return { data: buffer.subarray(0, bytesRead).toString('base64'), bytesRead };
+    }
+
+    async writeChunk(handle: string, data: string, position: number | null | undefined, connection: ClientConnection): Promise<any> {
+        const file = this.getOpenFile(handle, connection);
+        if (file.mode !== 'write') {
+            throw new Error(`File handle ${handle} is not open for writing`);
+        }
+        const buffer = Buffer.from(data, 'base64');
+        const bytesWritten = await new Promise<number>((resolve, reject) => {
+            fs.write(file.fd, buffer, 0, buffer.length, position ?? null, (err, written) => err ? reject(err) : resolve(written));
+        });
+        return { bytesWritten };
+    }
+
+    async closeFile(handle: string, abort: boolean, connection: ClientConnection): Promise<any> {
+        const file = this.getOpenFile(handle, connection);
+        this.openFiles.delete(handle);
+
+        let syncError: NodeJS.ErrnoException | null = null;
+        if (file.tmpPath && !abort) {
+            syncError = await new Promise((resolve) => fs.fsync(file.fd, (err) => resolve(err)));
+        }
+        await new Promise<void>((resolve, reject) => {
+            fs.close(file.fd, (err) => err ? reject(err) : resolve());
+        });
+
+        if (file.tmpPath) {
+            const tmpPath = file.tmpPath;
+            if (abort || syncError) {
+                await new Promise<void>((resolve) => fs.unlink(tmpPath, () => resolve()));
+                if (syncError) {
+                    throw syncError;
+                }
+                return false;
+            }
+            try {
+                return await this.commitWrite(tmpPath, file.path, file.precondition);
+            } catch (error) {
+                await new Promise<void>((resolve) => fs.unlink(tmpPath, () => resolve()));
+                throw error;
+            }
+        }
+        return true;
+    }
+
+    private getOpenFile(handle: string, connection: ClientConnection): OpenFile {
+        const file = this.openFiles.get(handle);
+        if (!file || file.connection !== connection) {
+            throw new Error(`Unknown file handle: ${handle}`);
+        }
+        return file;
+    }
+
+    private cleanupFilesForConnection(connection: ClientConnection): void {
+        for (const [handle, file] of this.openFiles.entries()) {
+            if (file.connection !== connection) {
+                continue;
+            }
+            this.openFiles.delete(handle);
+            fs.close(file.fd, () => {
+                // Abandoned uploads never replace the real file
+                if (file.tmpPath) {
+                    fs.unlink(file.tmpPath, () => {});
                 }
-                resolve({
-                    size: stats.size,
-                    isFile: stats.isFile(),
-                    isDirectory: stats.isDirectory(),
-                    isSymbolicLink: stats.isSymbolicLink(),
-                    modified: stats.mtime,
-                    created: stats.birthtime,
-                    mode: stats.mode
-                });
+            });
+        }
+    }
+
+    private async startWatch(watchPath: string, recursive: boolean, excludes: string[], requestId: string | number, connection: ClientConnection, signal: AbortSignal): Promise<any> {
+        const watchId = `w_${++this.nextWatchId}`;
+        const watcher = new FileWatcher(watchPath, { recursive, excludes }, (changes) => {
+            connection.send({
+                jsonrpc: '2.0',
+                result: {
+                    type: 'change',
+                    watchId,
+                    changes
+                },
+                id: requestId
             });
         });
+        // Registered first, so a connection closed meanwhile takes it along
+        this.watches.set(watchId, { watcher, connection });
+        await watcher.start();
+        // The client gave up waiting, e.g. on a long first scan
+        if (signal.aborted) {
+            this.stopWatch(watchId, connection);
+            checkAborted(signal);
+        }
+        console.log(`Watching ${watchPath} (${watcher.mode}, recursive: ${recursive})`);
+
+        return { type: 'ready', watchId, mode: watcher.mode };
+    }
+
+    private stopWatch(watchId: string, connection: ClientConnection): boolean {
+        const watch = this.watches.get(watchId);
+        if (!watch || watch.connection !== connection) {
+            return false;
+        }
+        watch.watcher.dispose();
+        this.watches.delete(watchId);
+        return true;
+    }
+
+    private cleanupWatchesForConnection(connection: ClientConnection): void {
+        for (const [watchId, watch] of this.watches.entries()) {
+            if (watch.connection === connection) {
+                watch.watcher.dispose();
+                this.watches.delete(watchId);
+            }
+        }
     }
 
     // Simple command execution (for non-terminal commands)
-    async executeCommand(command: string, cwd = process.cwd()): Promise<any> {
+    async executeCommand(command: string, cwd = process.cwd(), signal?: AbortSignal): Promise<any> {
         return new Promise((resolve, reject) => {
+            // Aborting kills the command and rejects with an AbortError
             const child = spawn('sh', ['-c', command], {
                 cwd,
-                stdio: 'pipe'
+                stdio: 'pipe',
+                signal
             });
 
             let stdout = '';
@@ -522,6 +1697,95 @@ class AIXRemoteServer {
         });
     }
 
+    /**
+     * Run a command without a terminal, streaming stdout and stderr separately
+     * and finishing with the command's own exit code, or the signal that
+     * ended it
+     */
+    private spawnProcess(command: string, options: ProcessOptions, streamId: string | number, connection: ClientConnection): void {
+        const child = spawn(options.shell || 'sh', ['-c', command], {
+            cwd: options.cwd || process.cwd(),
+            stdio: 'pipe',
+            env: options.env ? { ...process.env, ...options.env } : process.env
+        });
+        const spawned: SpawnedProcess = { id: ++this.nextProcessId, child, connection, streamId };
+        this.processes.set(spawned.id, spawned);
+
+        const send = (result: any) => {
+            if (connection.isOpen()) {
+                connection.send({ jsonrpc: '2.0', result, id: streamId });
+            }
+        };
+
+        // Decode as UTF-8 across chunk boundaries
+        child.stdout.setEncoding('utf8');
+        child.stderr.setEncoding('utf8');
+        child.stdout.on('data', (data: string) => send({ type: 'stdout', data }));
+        child.stderr.on('data', (data: string) => send({ type: 'stderr', data }));
+        // The command may exit without reading its input
+        child.stdin.on('error', () => {});
+
+        let finished = false;
+        child.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            this.processes.delete(spawned.id);
+            send({ type: 'exit', exitCode: code, signal: signal || undefined });
+        });
+
+        child.on('error', (error: Error) => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            this.processes.delete(spawned.id);
+            if (connection.isOpen()) {
+                connection.send({ jsonrpc: '2.0', error: toRPCError(error), id: streamId });
+            }
+        });
+
+        send({ type: 'ready', processId: spawned.id, pid: child.pid });
+    }
+
+    private getOwnedProcess(processId: number, connection: ClientConnection): SpawnedProcess | undefined {
+        const spawned = this.processes.get(processId);
+        if (spawned && spawned.connection !== connection) {
+            throw new Error(`Process ${processId} belongs to another client`);
+        }
+        return spawned;
+    }
+
+    private handleProcessWrite(processId: number, data: string | undefined, end: boolean | undefined, connection: ClientConnection): void {
+        const spawned = this.getOwnedProcess(processId, connection);
+        if (!spawned || spawned.child.stdin.destroyed) {
+            return;
+        }
+        if (data) {
+            spawned.child.stdin.write(data);
+        }
+        if (end) {
+            spawned.child.stdin.end();
+        }
+    }
+
+    private handleProcessKill(processId: number, signal: string | undefined, connection: ClientConnection): void {
+        const spawned = this.getOwnedProcess(processId, connection);
+        if (spawned) {
+            spawned.child.kill(checkSignal(signal || 'SIGTERM'));
+        }
+    }
+
+    private cleanupProcessesForConnection(connection: ClientConnection): void {
+        for (const spawned of Array.from(this.processes.values())) {
+            if (spawned.connection === connection) {
+                spawned.child.kill('SIGTERM');
+                this.processes.delete(spawned.id);
+            }
+        }
+    }
+
     getSystemInfo(): any {
         return {
             platform: os.platform(),
@@ -546,18 +1810,214 @@ class AIXRemoteServer {
     }
 }
 
-// Start the server
-const server = new AIXRemoteServer(8080);
+function errnoError(code: string, description: string, targetPath: string): NodeJS.ErrnoException {
+    const error: NodeJS.ErrnoException = new Error(`${code}: ${description}, '${targetPath}'`);
+    error.code = code;
+    error.path = targetPath;
+    return error;
+}
+
+function writeFlags(params: any): WriteFlags {
+    return { create: params.create !== false, overwrite: params.overwrite !== false };
+}
+
+/**
+ * The target of a symlink and what kind of entry it resolves to; `targetType`
+ * is 'missing' for a broken link
+ */
+async function describeLink(linkPath: string): Promise<{ target: string; targetType: string }> {
+    let target = '';
+    try {
+        target = await fs.promises.readlink(linkPath);
+        const stats = await fs.promises.stat(linkPath);
+        return { target, targetType: stats.isDirectory() ? 'directory' : stats.isFile() ? 'file' : 'other' };
+    } catch (error) {
+        return { target, targetType: 'missing' };
+    }
+}
+
+function isWritable(filePath: string): Promise<boolean> {
+    return new Promise((resolve) => fs.access(filePath, fs.constants.W_OK, (err) => resolve(!err)));
+}
+
+// AbortSignal.throwIfAborted needs Node 17.3, newer than some AIX installs
+function checkAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        const error = new Error('The operation was aborted');
+        error.name = 'AbortError';
+        throw error;
+    }
+}
+
+function toRPCError(error: unknown): NonNullable<RPCResponse['error']> {
+    if (error instanceof Error && error.name === 'AbortError') {
+        return { code: RPC_REQUEST_CANCELLED, message: 'Request cancelled' };
+    }
+
+    if (error instanceof WriteConflictError) {
+        return {
+            code: RPC_WRITE_CONFLICT,
+            message: 'Write conflict',
+            data: { path: error.filePath, ...error.current }
+        };
+    }
+
+    const errno = error as NodeJS.ErrnoException;
+    // Errno codes, not Node's own ERR_* codes
+    if (errno && typeof errno.code === 'string' && /^E[A-Z]+$/.test(errno.code)) {
+        return {
+            code: RPC_FILE_SYSTEM_ERROR,
+            message: errno.message,
+            data: { errno: errno.code, path: errno.path, syscall: errno.syscall }
+        };
+    }
+
+    return {
+        code: -32603,
+        message: 'Internal error',
+        data: error instanceof Error ? error.message : String(error)
+    };
+}
+
+function hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('data', (chunk) => hash.update(chunk))
+            .on('error', reject)
+            .on('end', () => resolve(hash.digest('hex')));
+    });
+}
+
+function loadAuthToken(): string {
+    const token = fs.readFileSync(AUTH_TOKEN_FILE, 'utf8').trim();
+    if (!token) {
+        throw new Error(`Authentication token file is empty: ${AUTH_TOKEN_FILE}`);
+    }
+    return token;
+}
 
-// Handle graceful shutdown
-process.on('SIGINT', () => {
-    console.log('\nShutting down AIX Remote Server...');
-    process.exit(0);
-});
+/**
+ * Advertise the bound port and our PID so the extension can find this
+ * server, and stop exactly this process, without touching anyone else's
+ */
+function writeServerInfo(port: number): void {
+    const tmpFile = `${SERVER_INFO_FILE}.${process.pid}.tmp`;
+    const info = { port, pid: process.pid, startedAt: new Date().toISOString() };
+    fs.writeFileSync(tmpFile, JSON.stringify(info), { mode: 0o600 });
+    fs.renameSync(tmpFile, SERVER_INFO_FILE);
+    console.log(`Server info written to ${SERVER_INFO_FILE}`);
+}
+
+function removeServerInfo(): void {
+    try {
+        const info = JSON.parse(fs.readFileSync(SERVER_INFO_FILE, 'utf8'));
+        // A newer server may have replaced the file already
+        if (info.pid === process.pid) {
+            fs.unlinkSync(SERVER_INFO_FILE);
+        }
+    } catch (error) {
+        // Nothing to clean up
+    }
+}
 
-process.on('SIGTERM', () => {
-    console.log('\nShutting down AIX Remote Server...');
-    process.exit(0);
-});
+function getArgValue(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function findExecutable(name: string): string | undefined {
+    for (const dir of (process.env.PATH || '').split(path.delimiter)) {
+        const candidate = path.join(dir || '.', name);
+        try {
+            fs.accessSync(candidate, fs.constants.X_OK);
+            return candidate;
+        } catch (error) {
+            // Not in this directory
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Add -i to a shell's arguments. bash only takes long options such as
+ * --rcfile (from shell integration) before the short ones, so it goes after
+ * those.
+ */
+function withInteractiveFlag(args: string[]): string[] {
+    let index = 0;
+    while (index < args.length && args[index].startsWith('--') && args[index] !== '--') {
+        index += args[index] === '--rcfile' || args[index] === '--init-file' ? 2 : 1;
+    }
+    return [...args.slice(0, index), '-i', ...args.slice(index)];
+}
+
+/**
+ * The signal if this platform has it; killing with an unknown one throws
+ */
+function checkSignal(signal: string): NodeJS.Signals {
+    if (!Object.prototype.hasOwnProperty.call(os.constants.signals, signal)) {
+        throw new Error(`Unknown signal ${signal}`);
+    }
+    return signal as NodeJS.Signals;
+}
+
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The child of `pid` that has a terminal, which for script and the PTY
+ * helper is the shell on the pty they allocated
+ */
+function findPtyChild(pid: number): Promise<PtyShell> {
+    return new Promise((resolve, reject) => {
+        execFile('ps', ['-e', '-o', 'pid=', '-o', 'ppid=', '-o', 'tty='], (error, stdout) => {
+            if (error) {
+                reject(error);
+                return;
+            }
+            for (const line of stdout.split('\n')) {
+                const [child, ppid, tty] = line.trim().split(/\s+/);
+                if (Number(ppid) === pid && tty && tty !== '-' && tty !== '?') {
+                    resolve({ pid: Number(child), tty: `/dev/${tty}` });
+                    return;
+                }
+            }
+            reject(new Error(`No terminal found for the children of process ${pid}`));
+        });
+    });
+}
+
+// Start the server when run directly (tests import the class instead)
+if (require.main === module) {
+    if (process.argv.includes('--stdio')) {
+        new AIXRemoteServer({ stdio: { input: process.stdin, output: process.stdout } });
+
+        // Our lifetime is tied to the SSH session that spawned us
+        process.stdin.on('end', () => process.exit(0));
+        process.stdout.on('error', () => process.exit(0));
+    } else {
+        // Bind an ephemeral port unless one is requested explicitly
+        const port = parseInt(getArgValue('--port') || '0', 10);
+        const server = new AIXRemoteServer({ port, authToken: loadAuthToken() });
+        server.waitForListening().then(writeServerInfo).catch((error) => {
+            console.error('Failed to start server:', error);
+            process.exit(1);
+        });
+        process.on('exit', removeServerInfo);
+    }
+
+    // Handle graceful shutdown
+    process.on('SIGINT', () => {
+        console.log('\nShutting down AIX Remote Server...');
+        process.exit(0);
+    });
+
+    process.on('SIGTERM', () => {
+        console.log('\nShutting down AIX Remote Server...');
+        process.exit(0);
+    });
+}
 
 export { AIXRemoteServer };
\ No newline at end of file
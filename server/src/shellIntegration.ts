@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Shell integration for terminals: a prompt hook that marks prompts and
+ * command results with OSC 633 (what VS Code's command decorations read) and
+ * reports the working directory with OSC 7 and `633;P;Cwd=`.
+ *
+ * bash loads it with --rcfile, ksh through $ENV; other shells start as they
+ * are. The scripts are written to ~/.aix-remote/shell-integration.
+ */
+
+const SCRIPT_DIR = path.join(os.homedir(), '.aix-remote', 'shell-integration');
+
+const BASH_SCRIPT = `# AIX Remote shell integration for bash, loaded with --rcfile
+
+# --rcfile replaces the usual startup files, so read them here
+if [ -n "$AIX_REMOTE_SHELL_LOGIN" ]; then
+    unset AIX_REMOTE_SHELL_LOGIN
+    [ -r /etc/profile ] && . /etc/profile
+    if [ -r ~/.bash_profile ]; then
+        . ~/.bash_profile
+    elif [ -r ~/.bash_login ]; then
+        . ~/.bash_login
+    elif [ -r ~/.profile ]; then
+        . ~/.profile
+    fi
+elif [ -r ~/.bashrc ]; then
+    . ~/.bashrc
+fi
+
+__aix_remote_prompted=
+__aix_remote_prompt() {
+    local status=$?
+    # The first prompt does not follow a command
+    if [ -n "$__aix_remote_prompted" ]; then
+        printf '\\033]633;D;%s\\007' "$status"
+    fi
+    __aix_remote_prompted=1
+    printf '\\033]633;P;Cwd=%s\\007\\033]7;file://%s%s\\007' "$PWD" "$HOSTNAME" "$PWD"
+    return $status
+}
+
+PROMPT_COMMAND="__aix_remote_prompt\${PROMPT_COMMAND:+; $PROMPT_COMMAND}"
+PS1="\\[\\033]633;A\\007\\]$PS1\\[\\033]633;B\\007\\]"
+# bash 4.4 and later: mark where the command's output starts
+PS0=$'\\e]633;C\\a'
+`;
+
+const KSH_SCRIPT = `# AIX Remote shell integration for ksh, read through $ENV
+
+# Put the user's own ENV back, for this shell and the ones it starts
+if [ -n "$AIX_REMOTE_ENV" ]; then
+    ENV=$AIX_REMOTE_ENV
+    unset AIX_REMOTE_ENV
+    __aix_remote_env=$(eval echo "$ENV")
+    [ -r "$__aix_remote_env" ] && . "$__aix_remote_env"
+    unset __aix_remote_env
+else
+    unset ENV
+fi
+
+case $- in
+*i*)
+    # ksh has no prompt hook, so the sequences go into PS1. A prompt that
+    # starts with a non-printing character and a carriage return uses that
+    # character to bracket the parts line editing should not count.
+    __aix_remote_n=$(printf '\\001')
+    __aix_remote_r=$(printf '\\r')
+    __aix_remote_e=$(printf '\\033')
+    __aix_remote_a=$(printf '\\007')
+    __aix_remote_host=$(hostname)
+    PS1="$__aix_remote_n$__aix_remote_r$__aix_remote_n\\
+$__aix_remote_e]633;D;"'$?'"$__aix_remote_a\\
+$__aix_remote_e]633;P;Cwd="'$PWD'"$__aix_remote_a\\
+$__aix_remote_e]7;file://$__aix_remote_host"'$PWD'"$__aix_remote_a\\
+$__aix_remote_e]633;A$__aix_remote_a$__aix_remote_n\${PS1:-\\$ }\\
+$__aix_remote_n$__aix_remote_e]633;B$__aix_remote_a$__aix_remote_n"
+    unset __aix_remote_n __aix_remote_r __aix_remote_e __aix_remote_a __aix_remote_host
+    ;;
+esac
+`;
+
+export interface ShellLaunch {
+    args: string[];
+    env: { [name: string]: string | undefined };
+}
+
+/**
+ * How to start the shell with shell integration, or undefined for shells
+ * without it and for shells that are not going to be interactive
+ */
+export function withShellIntegration(shell: string, args: string[], env: { [name: string]: string | undefined }): ShellLaunch | undefined {
+    const name = path.basename(shell);
+    // Anything but options means a script or -c command
+    if (args.some(arg => !arg.startsWith('-') || arg === '-c')) {
+        return undefined;
+    }
+
+    if (name === 'bash') {
+        const login = args.some(arg => arg === '-l' || arg === '--login');
+        return {
+            args: ['--rcfile', writeScript('bash.sh', BASH_SCRIPT), ...args.filter(arg => arg !== '-l' && arg !== '--login')],
+            env: login ? { ...env, AIX_REMOTE_SHELL_LOGIN: '1' } : env
+        };
+    }
+
+    // /usr/bin/sh on AIX is the Korn shell too
+    if (/^ksh(88|93)?$/.test(name) || (name === 'sh' && os.platform() === 'aix')) {
+        return {
+            args,
+            env: { ...env, ENV: writeScript('ksh.sh', KSH_SCRIPT), ...(env.ENV ? { AIX_REMOTE_ENV: env.ENV } : {}) }
+        };
+    }
+
+    return undefined;
+}
+
+function writeScript(name: string, content: string): string {
+    const file = path.join(SCRIPT_DIR, name);
+    // Other servers sharing the home directory may be reading it
+    let current: string | undefined;
+    try {
+        current = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+        // Not written yet
+    }
+    if (current !== content) {
+        fs.mkdirSync(SCRIPT_DIR, { recursive: true });
+        const temp = `${file}.${process.pid}`;
+        fs.writeFileSync(temp, content);
+        fs.renameSync(temp, file);
+    }
+    return file;
+}
@@ -0,0 +1,92 @@
+const { describe, it, before, after } = require('node:test');
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { FileWatcher } = require('../dist/fileWatcher');
+
+function nextChanges(changes) {
+    return new Promise((resolve) => changes.push(resolve));
+}
+
+function watch(root, options) {
+    const waiters = [];
+    const watcher = new FileWatcher(root, { excludes: ['**/*.log'], poll: true, ...options }, (changes) => {
+        const waiter = waiters.shift();
+        if (waiter) {
+            waiter(changes);
+        }
+    });
+    return { watcher, changes: () => nextChanges(waiters) };
+}
+
+describe('FileWatcher polling', () => {
+    let dir;
+    // Poll timers do not keep the process alive on their own
+    let keepAlive;
+
+    before(() => {
+        keepAlive = setInterval(() => {}, 1000);
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aix-remote-watch-'));
+        fs.mkdirSync(path.join(dir, 'sub', 'deep'), { recursive: true });
+        fs.writeFileSync(path.join(dir, 'sub', 'old.txt'), 'x');
+    });
+
+    after(() => {
+        clearInterval(keepAlive);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reports changes under a tree and to a watch of a directory inside it', async () => {
+        const tree = watch(dir, { recursive: true });
+        await tree.watcher.start();
+        const sub = watch(path.join(dir, 'sub'), { recursive: false });
+        await sub.watcher.start();
+        assert.strictEqual(tree.watcher.mode, 'poll');
+
+        const treeChanges = tree.changes();
+        const subChanges = sub.changes();
+        fs.writeFileSync(path.join(dir, 'sub', 'new.txt'), 'x');
+        fs.writeFileSync(path.join(dir, 'sub', 'ignored.log'), 'x');
+        fs.writeFileSync(path.join(dir, 'sub', 'deep', 'nested.txt'), 'x');
+        fs.unlinkSync(path.join(dir, 'sub', 'old.txt'));
+
+        const changed = (changes) => changes.map(c => `${c.type} ${path.relative(dir, c.path)}`).sort();
+        assert.deepStrictEqual(changed(await subChanges), [
+            'changed sub',
+            'changed sub/deep',
+            'created sub/new.txt',
+            'deleted sub/old.txt'
+        ]);
+        assert.ok(changed(await treeChanges).includes('created sub/deep/nested.txt'));
+
+        tree.watcher.dispose();
+        sub.watcher.dispose();
+    });
+
+    it('matches the excludes of a watch sharing a poller against its own root', async () => {
+        const excludes = ['sub/deep'];
+        const tree = watch(dir, { recursive: true, excludes });
+        await tree.watcher.start();
+        const sub = watch(path.join(dir, 'sub'), { recursive: true, excludes });
+        await sub.watcher.start();
+
+        const treeChanges = tree.changes();
+        const subChanges = sub.changes();
+        fs.writeFileSync(path.join(dir, 'sub', 'deep', 'shared.txt'), 'x');
+        fs.writeFileSync(path.join(dir, 'top.txt'), 'x');
+
+        const changed = (changes) => changes.map(c => `${c.type} ${path.relative(dir, c.path)}`).sort();
+        assert.deepStrictEqual(changed(await subChanges), [
+            'changed sub/deep',
+            'created sub/deep/shared.txt'
+        ]);
+        assert.deepStrictEqual(changed(await treeChanges), [
+            'changed ',
+            'created top.txt'
+        ]);
+
+        tree.watcher.dispose();
+        sub.watcher.dispose();
+    });
+});
@@ -0,0 +1,687 @@
+const { describe, it, before, after } = require('node:test');
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const WebSocket = require('ws');
+const { PassThrough } = require('stream');
+const { AIXRemoteServer } = require('../dist/server');
+
+const TOKEN = 'test-token-0123456789abcdef';
+
+function connect(port) {
+    return new Promise((resolve, reject) => {
+        const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+        const messages = [];
+        const waiters = [];
+        ws.on('message', (data) => {
+            const message = JSON.parse(data.toString());
+            const index = waiters.findIndex(w => w.id === message.id);
+            if (index >= 0) {
+                waiters.splice(index, 1)[0].resolve(message);
+            } else {
+                messages.push(message);
+            }
+        });
+        ws.on('open', () => resolve({
+            ws,
+            request(method, params, id) {
+                return new Promise((resolveResponse) => {
+                    const queued = messages.findIndex(m => m.id === id);
+                    if (queued >= 0) {
+                        resolveResponse(messages.splice(queued, 1)[0]);
+                        return;
+                    }
+                    waiters.push({ id, resolve: resolveResponse });
+                    // A null method just waits for the next message with this id
+                    if (method) {
+                        ws.send(JSON.stringify({ jsonrpc: '2.0', method, params, id }));
+                    }
+                });
+            },
+            closed: new Promise((resolveClose) => ws.on('close', (code) => resolveClose(code)))
+        }));
+        ws.on('error', reject);
+    });
+}
+
+describe('AIXRemoteServer authentication', () => {
+    let server;
+    let port;
+
+    before(async () => {
+        server = new AIXRemoteServer({ port: 0, authToken: TOKEN });
+        port = await server.waitForListening();
+    });
+
+    after(async () => {
+        await server.close();
+    });
+
+    it('refuses to start without a token', () => {
+        assert.throws(() => new AIXRemoteServer({ port: 0, authToken: '' }));
+    });
+
+    it('rejects requests from clients that have not authenticated', async () => {
+        const client = await connect(port);
+        const response = await client.request('fs.stat', { path: '/' }, 1);
+        assert.strictEqual(response.error.code, -32001);
+        assert.strictEqual(response.result, undefined);
+        client.ws.close();
+    });
+
+    it('closes the connection after an invalid token', async () => {
+        const client = await connect(port);
+        const response = await client.request('auth.hello', { token: 'wrong' }, 1);
+        assert.strictEqual(response.error.code, -32001);
+        assert.strictEqual(await client.closed, 1008);
+    });
+
+    it('serves requests once the handshake succeeds', async () => {
+        const client = await connect(port);
+        const hello = await client.request('auth.hello', { token: TOKEN }, 1);
+        assert.ok(hello.result);
+        assert.strictEqual(typeof hello.result.ptySupported, 'boolean');
+
+        const stat = await client.request('fs.stat', { path: '/' }, 2);
+        assert.strictEqual(stat.error, undefined);
+        assert.strictEqual(stat.result.isDirectory, true);
+        client.ws.close();
+    });
+});
+
+describe('AIXRemoteServer file system', () => {
+    let server;
+    let client;
+    let dir;
+
+    before(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aix-remote-test-'));
+        server = new AIXRemoteServer({ port: 0, authToken: TOKEN });
+        client = await connect(await server.waitForListening());
+        await client.request('auth.hello', { token: TOKEN }, 'hello');
+    });
+
+    after(async () => {
+        client.ws.close();
+        await server.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('round-trips binary content byte for byte', async () => {
+        const bytes = Buffer.alloc(256);
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = i;
+        }
+        const file = path.join(dir, 'binary.bin');
+
+        const write = await client.request('fs.writeFile', { path: file, content: bytes.toString('base64') }, 1);
+        assert.strictEqual(write.error, undefined);
+        assert.ok(fs.readFileSync(file).equals(bytes));
+
+        const read = await client.request('fs.readFile', { path: file }, 2);
+        assert.ok(Buffer.from(read.result, 'base64').equals(bytes));
+    });
+
+    it('transfers files in chunks and only replaces the target on close', async () => {
+        const file = path.join(dir, 'chunked.txt');
+        fs.writeFileSync(file, 'original');
+
+        const open = await client.request('fs.open', { path: file, mode: 'write' }, 3);
+        const handle = open.result.handle;
+        await client.request('fs.write', { handle, data: Buffer.from('hello ').toString('base64') }, 4);
+        await client.request('fs.write', { handle, data: Buffer.from('world').toString('base64') }, 5);
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), 'original');
+
+        await client.request('fs.close', { handle }, 6);
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), 'hello world');
+
+        const reader = await client.request('fs.open', { path: file, mode: 'read' }, 7);
+        assert.strictEqual(reader.result.size, 11);
+        const tail = await client.request('fs.read', { handle: reader.result.handle, position: 6, length: 5 }, 8);
+        assert.strictEqual(Buffer.from(tail.result.data, 'base64').toString(), 'world');
+        await client.request('fs.close', { handle: reader.result.handle }, 9);
+        assert.deepStrictEqual(fs.readdirSync(dir).filter(name => name.endsWith('.tmp')), []);
+    });
+
+    it('refuses writes whose precondition no longer matches the file', async () => {
+        const file = path.join(dir, 'shared.txt');
+        const saved = await client.request('fs.writeFile', { path: file, content: Buffer.from('ours').toString('base64') }, 30);
+        const precondition = { mtime: saved.result.mtime, size: saved.result.size };
+
+        // Someone else edits the file on the host
+        fs.writeFileSync(file, 'theirs!');
+        const refused = await client.request('fs.writeFile', {
+            path: file, content: Buffer.from('ours again').toString('base64'), precondition
+        }, 31);
+        assert.strictEqual(refused.error.code, -32010);
+        assert.strictEqual(refused.error.data.size, 7);
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), 'theirs!');
+
+        const chunked = await client.request('fs.open', { path: file, mode: 'write', precondition }, 32);
+        assert.strictEqual(chunked.error.code, -32010);
+
+        const current = { mtime: refused.error.data.mtime, size: refused.error.data.size };
+        const accepted = await client.request('fs.writeFile', {
+            path: file, content: Buffer.from('merged').toString('base64'), precondition: current
+        }, 33);
+        assert.strictEqual(accepted.error, undefined);
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), 'merged');
+        assert.deepStrictEqual(fs.readdirSync(dir).filter(name => name.endsWith('.tmp')), []);
+    });
+
+    it('reports the mtime that write preconditions are checked against', async () => {
+        const file = path.join(dir, 'fractional.txt');
+        fs.writeFileSync(file, 'x');
+        // 1000000.9 ms, which a Date rounds up
+        fs.utimesSync(file, 1000.0009, 1000.0009);
+
+        const { result: stat } = await client.request('fs.stat', { path: file }, 36);
+        assert.strictEqual(stat.mtime, 1000000);
+        const written = await client.request('fs.writeFile', {
+            path: file, content: Buffer.from('y').toString('base64'), precondition: { mtime: stat.mtime, size: stat.size }
+        }, 37);
+        assert.strictEqual(written.error, undefined);
+    });
+
+    it('honors the create and overwrite flags', async () => {
+        const file = path.join(dir, 'flags.txt');
+        const content = Buffer.from('x').toString('base64');
+
+        const notCreated = await client.request('fs.writeFile', { path: file, content, create: false, overwrite: true }, 50);
+        assert.strictEqual(notCreated.error.data.errno, 'ENOENT');
+        assert.ok(!fs.existsSync(file));
+
+        await client.request('fs.writeFile', { path: file, content, create: true, overwrite: false }, 51);
+        const notOverwritten = await client.request('fs.writeFile', { path: file, content, create: true, overwrite: false }, 52);
+        assert.strictEqual(notOverwritten.error.data.errno, 'EEXIST');
+
+        const stat = await client.request('fs.stat', { path: file }, 53);
+        assert.strictEqual(stat.result.writable, true);
+    });
+
+    it('reports failed system calls with their errno code', async () => {
+        const file = path.join(dir, 'errno.txt');
+        fs.writeFileSync(file, 'x');
+
+        const cases = [
+            ['fs.stat', { path: path.join(dir, 'missing') }, 'ENOENT'],
+            ['fs.mkdir', { path: file }, 'EEXIST'],
+            ['fs.readDir', { path: file }, 'ENOTDIR'],
+            ['fs.readFile', { path: dir }, 'EISDIR']
+        ];
+        for (const [index, [method, params, errno]] of cases.entries()) {
+            const response = await client.request(method, params, 40 + index);
+            assert.strictEqual(response.error.code, -32011, method);
+            assert.strictEqual(response.error.data.errno, errno, method);
+        }
+    });
+
+    it('describes symbolic links and what they point at', async () => {
+        const links = fs.mkdtempSync(path.join(dir, 'links-'));
+        fs.mkdirSync(path.join(links, 'real-dir'));
+        fs.writeFileSync(path.join(links, 'real-file'), 'x');
+        fs.symlinkSync('real-dir', path.join(links, 'dir-link'));
+        fs.symlinkSync('real-file', path.join(links, 'file-link'));
+        fs.symlinkSync('nowhere', path.join(links, 'broken-link'));
+
+        const listing = await client.request('fs.readDir', { path: links }, 60);
+        const byName = Object.fromEntries(listing.result.map(entry => [entry.name, entry]));
+        assert.deepStrictEqual([byName['dir-link'].type, byName['dir-link'].target, byName['dir-link'].targetType],
+            ['symlink', 'real-dir', 'directory']);
+        assert.strictEqual(byName['file-link'].targetType, 'file');
+        assert.strictEqual(byName['broken-link'].targetType, 'missing');
+
+        const stat = await client.request('fs.stat', { path: path.join(links, 'dir-link') }, 61);
+        assert.strictEqual(stat.result.isSymbolicLink, true);
+        assert.strictEqual(stat.result.isDirectory, true);
+
+        const broken = await client.request('fs.stat', { path: path.join(links, 'broken-link') }, 62);
+        assert.strictEqual(broken.result.broken, true);
+
+        const lstat = await client.request('fs.lstat', { path: path.join(links, 'file-link') }, 63);
+        assert.strictEqual(lstat.result.isFile, false);
+        assert.strictEqual(lstat.result.target, 'real-file');
+
+        const readlink = await client.request('fs.readlink', { path: path.join(links, 'broken-link') }, 64);
+        assert.strictEqual(readlink.result, 'nowhere');
+    });
+
+    it('lists directories with inline metadata on request', async () => {
+        const listed = fs.mkdtempSync(path.join(dir, 'listed-'));
+        fs.writeFileSync(path.join(listed, 'a.txt'), 'abc');
+        fs.mkdirSync(path.join(listed, 'sub'));
+
+        const plain = await client.request('fs.readDir', { path: listed }, 70);
+        assert.ok(plain.result.every(entry => entry.stat === undefined));
+
+        const withStats = await client.request('fs.readDir', { path: listed, withStats: true }, 71);
+        const byName = Object.fromEntries(withStats.result.map(entry => [entry.name, entry]));
+        assert.strictEqual(byName['a.txt'].stat.size, 3);
+        assert.strictEqual(byName['a.txt'].stat.isFile, true);
+        assert.strictEqual(byName['sub'].stat.isDirectory, true);
+    });
+
+    it('creates, copies, renames and deletes entries', async () => {
+        const tree = path.join(dir, 'tree');
+        assert.strictEqual((await client.request('fs.mkdir', { path: tree }, 20)).result, true);
+        fs.writeFileSync(path.join(tree, 'a.txt'), 'a');
+
+        const copy = path.join(dir, 'tree-copy');
+        await client.request('fs.copy', { source: tree, destination: copy }, 21);
+        assert.strictEqual(fs.readFileSync(path.join(copy, 'a.txt'), 'utf8'), 'a');
+
+        const refused = await client.request('fs.rename', { oldPath: path.join(copy, 'a.txt'), newPath: path.join(tree, 'a.txt') }, 22);
+        assert.ok(refused.error);
+        await client.request('fs.rename', { oldPath: path.join(copy, 'a.txt'), newPath: path.join(copy, 'b.txt') }, 23);
+        assert.ok(fs.existsSync(path.join(copy, 'b.txt')));
+
+        const notRecursive = await client.request('fs.delete', { path: copy, recursive: false }, 24);
+        assert.ok(notRecursive.error);
+        await client.request('fs.delete', { path: copy, recursive: true }, 25);
+        assert.ok(!fs.existsSync(copy));
+    });
+
+    it('keeps the destination when a copy or rename with overwrite cannot be done', async () => {
+        const kept = path.join(dir, 'kept');
+        fs.mkdirSync(kept);
+        fs.writeFileSync(path.join(kept, 'a.txt'), 'a');
+        const missing = path.join(dir, 'missing');
+
+        const ontoItself = await client.request('fs.copy', { source: kept, destination: kept, overwrite: true }, 30);
+        assert.strictEqual(ontoItself.error.data.errno, 'EINVAL');
+        const intoItself = await client.request('fs.copy', { source: kept, destination: path.join(kept, 'inner'), overwrite: true }, 31);
+        assert.strictEqual(intoItself.error.data.errno, 'EINVAL');
+        const copyMissing = await client.request('fs.copy', { source: missing, destination: kept, overwrite: true }, 32);
+        assert.strictEqual(copyMissing.error.data.errno, 'ENOENT');
+        const renameMissing = await client.request('fs.rename', { oldPath: missing, newPath: kept, overwrite: true }, 33);
+        assert.strictEqual(renameMissing.error.data.errno, 'ENOENT');
+        assert.strictEqual(fs.readFileSync(path.join(kept, 'a.txt'), 'utf8'), 'a');
+
+        const replacement = path.join(dir, 'replacement');
+        fs.mkdirSync(replacement);
+        fs.writeFileSync(path.join(replacement, 'b.txt'), 'b');
+        await client.request('fs.copy', { source: replacement, destination: kept, overwrite: true }, 34);
+        assert.deepStrictEqual(fs.readdirSync(kept), ['b.txt']);
+        await client.request('fs.rename', { oldPath: replacement, newPath: kept, overwrite: true }, 35);
+        assert.deepStrictEqual(fs.readdirSync(kept), ['b.txt']);
+        assert.ok(!fs.existsSync(replacement));
+        assert.deepStrictEqual(fs.readdirSync(dir).filter(name => name.includes('aix-remote')), []);
+    });
+
+    it('pushes change notifications for watched directories', async () => {
+        const watched = fs.mkdtempSync(path.join(dir, 'watched-'));
+        const ready = await client.request('fs.watch', { path: watched, recursive: false, excludes: ['*.log'] }, 10);
+        assert.strictEqual(ready.result.type, 'ready');
+
+        const change = client.request(null, null, 10);
+        fs.writeFileSync(path.join(watched, 'ignored.log'), 'x');
+        fs.writeFileSync(path.join(watched, 'new.txt'), 'x');
+        const { result } = await change;
+        assert.strictEqual(result.type, 'change');
+        assert.ok(result.changes.some(c => c.path === path.join(watched, 'new.txt')));
+        assert.ok(!result.changes.some(c => c.path.endsWith('ignored.log')));
+
+        await client.request('fs.unwatch', { watchId: ready.result.watchId }, 11);
+    });
+});
+
+describe('AIXRemoteServer request handling', () => {
+    let server;
+    let client;
+
+    before(async () => {
+        server = new AIXRemoteServer({ port: 0, authToken: TOKEN });
+        client = await connect(await server.waitForListening());
+        await client.request('auth.hello', { token: TOKEN }, 'hello');
+    });
+
+    after(async () => {
+        client.ws.close();
+        await server.close();
+    });
+
+    it('answers each request of a batch as soon as it is done', async () => {
+        const order = [];
+        const replies = new Promise((resolve) => {
+            const onMessage = (data) => {
+                const response = JSON.parse(data.toString());
+                order.push(response.id);
+                if (order.length === 3) {
+                    client.ws.off('message', onMessage);
+                    resolve();
+                }
+            };
+            client.ws.on('message', onMessage);
+        });
+        client.ws.send(JSON.stringify([
+            { jsonrpc: '2.0', method: 'terminal.exec', params: { command: 'sleep 1' }, id: 'b0' },
+            { jsonrpc: '2.0', method: 'system.info', id: 'b1' },
+            { jsonrpc: '2.0', method: 'fs.stat', params: { path: os.tmpdir() }, id: 'b2' },
+            { jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 'nothing' } }
+        ]));
+
+        await replies;
+        assert.deepStrictEqual(order.slice(0, 2).sort(), ['b1', 'b2']);
+        assert.strictEqual(order[2], 'b0');
+    });
+
+    it('does not answer notifications and keeps an id of 0', async () => {
+        const next = new Promise((resolve) => client.ws.once('message', (data) => resolve(JSON.parse(data.toString()))));
+        client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.resize', params: { sessionId: 'none', cols: 80, rows: 24 } }));
+        // Failing ones neither
+        client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'no.such.method', params: {} }));
+        client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'system.info', id: 0 }));
+
+        const response = await next;
+        assert.strictEqual(response.id, 0);
+        assert.ok(response.result);
+    });
+
+    it('stops a command when its request is cancelled', async () => {
+        const started = Date.now();
+        const response = client.request('terminal.exec', { command: 'sleep 10' }, 'slow');
+        setTimeout(() => client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 'slow' } })), 100);
+
+        const { error } = await response;
+        assert.strictEqual(error.code, -32800);
+        assert.ok(Date.now() - started < 5000);
+    });
+
+    // Collects a process's output streams until it exits
+    async function runToExit(id) {
+        const output = { stdout: '', stderr: '' };
+        for (;;) {
+            const { result } = await client.request(null, null, id);
+            if (result.type === 'exit') {
+                return { ...output, exitCode: result.exitCode, signal: result.signal };
+            }
+            output[result.type] += result.data;
+        }
+    }
+
+    it('streams a process\'s stdout and stderr separately with its exit code', async () => {
+        const ready = await client.request('process.spawn', { command: 'echo out; echo err >&2; exit 3' }, 'p1');
+        assert.strictEqual(ready.result.type, 'ready');
+
+        const { stdout, stderr, exitCode } = await runToExit('p1');
+        assert.strictEqual(stdout, 'out\n');
+        assert.strictEqual(stderr, 'err\n');
+        assert.strictEqual(exitCode, 3);
+    });
+
+    it('runs a process in the requested shell, directory and environment', async () => {
+        const dir = fs.realpathSync(os.tmpdir());
+        await client.request('process.spawn', { command: 'echo "$0 $GREETING $(pwd)"', cwd: dir, env: { GREETING: 'hi' }, shell: 'bash' }, 'p4');
+        const { stdout } = await runToExit('p4');
+        assert.strictEqual(stdout, `bash hi ${dir}\n`);
+    });
+
+    it('feeds a process\'s stdin and delivers signals to it', async () => {
+        const cat = await client.request('process.spawn', { command: 'tr a-z A-Z' }, 'p2');
+        await client.request('process.write', { processId: cat.result.processId, data: 'hello\n', end: true }, 'w1');
+        const upper = await runToExit('p2');
+        assert.strictEqual(upper.stdout, 'HELLO\n');
+        assert.strictEqual(upper.exitCode, 0);
+
+        const sleeper = await client.request('process.spawn', { command: 'exec sleep 10' }, 'p3');
+        await client.request('process.kill', { processId: sleeper.result.processId, signal: 'SIGINT' }, 'k1');
+        const killed = await runToExit('p3');
+        assert.strictEqual(killed.exitCode, null);
+        assert.strictEqual(killed.signal, 'SIGINT');
+    });
+});
+
+describe('AIXRemoteServer terminal sessions', () => {
+    let server;
+    let port;
+    const shell = process.env.SHELL;
+
+    before(async () => {
+        // Keep the login profile of whoever runs the tests out of the way
+        process.env.SHELL = '/bin/sh';
+        server = new AIXRemoteServer({ port: 0, authToken: TOKEN });
+        port = await server.waitForListening();
+    });
+
+    after(async () => {
+        process.env.SHELL = shell;
+        await server.close();
+    });
+
+    async function authenticated() {
+        const client = await connect(port);
+        await client.request('auth.hello', { token: TOKEN }, 'hello');
+        return client;
+    }
+
+    // Collects streamed terminal output until it contains the text
+    async function outputUntil(client, id, text) {
+        let output = '';
+        while (!output.includes(text)) {
+            const { result } = await client.request(null, null, id);
+            assert.strictEqual(result.type, 'data');
+            output += result.data;
+        }
+        return output;
+    }
+
+    it('keeps a session running after its client disconnects and replays missed output', async () => {
+        const first = await authenticated();
+        const ready = await first.request('terminal.create', { cwd: os.tmpdir(), sessionId: 'detach-me', name: 'build' }, 't1');
+        assert.strictEqual(ready.result.type, 'ready');
+        assert.strictEqual(ready.result.sessionId, 'detach-me');
+
+        first.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.input', params: { sessionId: 'detach-me', data: 'echo before-$((1 + 1))\n' } }));
+        await outputUntil(first, 't1', 'before-2');
+        first.ws.close();
+        await first.closed;
+
+        const second = await authenticated();
+        const { result: sessions } = await second.request('terminal.list', {}, 'list');
+        const listed = sessions.find(s => s.sessionId === 'detach-me');
+        assert.ok(listed);
+        assert.strictEqual(listed.name, 'build');
+        assert.strictEqual(listed.attached, false);
+        assert.ok(listed.detachedAt);
+
+        const reattached = await second.request('terminal.attach', { sessionId: 'detach-me', since: 0 }, 't2');
+        assert.strictEqual(reattached.result.type, 'ready');
+        assert.strictEqual(reattached.result.reattached, true);
+        await outputUntil(second, 't2', 'before-2');
+
+        second.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.kill', params: { sessionId: 'detach-me', signal: 'SIGHUP' } }));
+        const missing = await second.request('terminal.attach', { sessionId: 'detach-me', since: 0 }, 't3');
+        assert.ok(missing.error);
+        second.ws.close();
+    });
+
+    it('only lets the client a session is attached to drive it', async () => {
+        const owner = await authenticated();
+        const other = await authenticated();
+        await owner.request('terminal.create', { sessionId: 'owned' }, 't1');
+
+        const input = await other.request('terminal.input', { sessionId: 'owned', data: 'exit\n' }, 'i1');
+        assert.ok(input.error);
+        const resize = await other.request('terminal.resize', { sessionId: 'owned', cols: 100, rows: 40 }, 'r1');
+        assert.ok(resize.error);
+        const kill = await other.request('terminal.kill', { sessionId: 'owned', signal: 'SIGKILL' }, 'k1');
+        assert.ok(kill.error);
+        const attach = await other.request('terminal.attach', { sessionId: 'owned', since: 0 }, 'a1');
+        assert.ok(attach.error);
+
+        const { result: sessions } = await other.request('terminal.list', {}, 'list');
+        assert.strictEqual(sessions.find(s => s.sessionId === 'owned').attached, true);
+
+        const killed = await owner.request('terminal.kill', { sessionId: 'owned', signal: 'SIGHUP' }, 'k2');
+        assert.ok(killed.result.success);
+        owner.ws.close();
+        other.ws.close();
+    });
+
+    it('leaves the sessions of other clients alone when one disconnects', async () => {
+        const leaving = await authenticated();
+        const staying = await authenticated();
+        await leaving.request('terminal.create', { sessionId: 'leaving', gracePeriod: 0 }, 't1');
+        await staying.request('terminal.create', { sessionId: 'staying', gracePeriod: 0 }, 't1');
+
+        leaving.ws.close();
+        await leaving.closed;
+
+        const { result: sessions } = await staying.request('terminal.list', {}, 'list');
+        assert.ok(!sessions.some(s => s.sessionId === 'leaving'));
+        assert.ok(sessions.some(s => s.sessionId === 'staying'));
+
+        staying.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.input', params: { sessionId: 'staying', data: 'echo still-$((2 + 2))\n' } }));
+        await outputUntil(staying, 't1', 'still-4');
+        staying.ws.close();
+    });
+
+    it('starts the requested shell as a login shell', async () => {
+        const client = await authenticated();
+        const ready = await client.request('terminal.create', { sessionId: 'login', shell: 'bash', login: true }, 't1');
+        assert.strictEqual(ready.result.shell, 'bash');
+
+        client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.input', params: { sessionId: 'login', data: 'shopt -q login_shell && echo "login-$((1 + 1))"\n' } }));
+        await outputUntil(client, 't1', 'login-2');
+        await client.request('terminal.kill', { sessionId: 'login', signal: 'SIGHUP' }, 'k1');
+        client.ws.close();
+    });
+
+    it('passes shell arguments, environment and terminal type to the shell', async () => {
+        const client = await authenticated();
+        await client.request('terminal.create', { sessionId: 'configured', args: ['-e'], env: { OBJECT_MODE: '64' }, term: 'vt100' }, 't1');
+
+        client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.input', params: { sessionId: 'configured', data: 'echo "$TERM/$OBJECT_MODE/$-/$((1 + 1))"\n' } }));
+        const output = await outputUntil(client, 't1', '/2');
+        assert.match(output, /vt100\/64\/[a-zA-Z]*e[a-zA-Z]*\/2/);
+        await client.request('terminal.kill', { sessionId: 'configured', signal: 'SIGHUP' }, 'k1');
+        client.ws.close();
+    });
+
+    it('reports the working directory and exit status with shell integration', async () => {
+        const client = await authenticated();
+        await client.request('terminal.create', { sessionId: 'integrated', shell: 'bash', shellIntegration: true }, 't1');
+
+        client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.input', params: { sessionId: 'integrated', data: 'cd / && false\n' } }));
+        const output = await outputUntil(client, 't1', '\x1b]633;P;Cwd=/\x07');
+        assert.ok(output.includes('\x1b]633;D;1\x07'));
+        await client.request('terminal.kill', { sessionId: 'integrated', signal: 'SIGHUP' }, 'k1');
+        client.ws.close();
+    });
+
+    it('starts bash with shell integration when there is no pty', async () => {
+        const piped = new AIXRemoteServer({ port: 0, authToken: TOKEN, terminalModes: ['spawn'] });
+        const client = await connect(await piped.waitForListening());
+        await client.request('auth.hello', { token: TOKEN }, 'hello');
+        const ready = await client.request('terminal.create', { sessionId: 'piped', shell: 'bash', shellIntegration: true }, 't1');
+        assert.strictEqual(ready.result.mode, 'spawn');
+
+        client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.input', params: { sessionId: 'piped', data: 'cd / && false\n' } }));
+        const output = await outputUntil(client, 't1', '\x1b]633;P;Cwd=/\x07');
+        assert.ok(output.includes('\x1b]633;D;1\x07'));
+        client.ws.close();
+        await piped.close();
+    });
+
+    it('pauses a session whose output is not acknowledged', async () => {
+        const client = await authenticated();
+        let received = 0;
+        let output = '';
+        client.ws.on('message', (message) => {
+            const { id, result } = JSON.parse(message.toString());
+            if (id === 't1' && result.type === 'data') {
+                received += result.data.length;
+                output = (output + result.data).slice(-100);
+            }
+        });
+        await client.request('terminal.create', { sessionId: 'flooding', flowControl: true }, 't1');
+        client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.input', params: { sessionId: 'flooding', data: 'yes | head -c 4000000; echo "done-$((1 + 1))"\n' } }));
+
+        // Wait for the output to stall well short of the 4MB
+        let last = -1;
+        while (received !== last) {
+            last = received;
+            await new Promise(resolve => setTimeout(resolve, 300));
+        }
+        assert.ok(received > 0 && received < 1024 * 1024, `received ${received} characters`);
+
+        while (!output.includes('done-2')) {
+            client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.ack', params: { sessionId: 'flooding', chars: received } }));
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        assert.ok(received > 4000000);
+        await client.request('terminal.kill', { sessionId: 'flooding', signal: 'SIGHUP' }, 'k1');
+        client.ws.close();
+    });
+
+    for (const mode of ['script', 'helper']) {
+        it(`gives the shell a terminal of the client's size in ${mode} mode`, async () => {
+            const emulated = new AIXRemoteServer({ port: 0, authToken: TOKEN, terminalModes: [mode] });
+            const client = await connect(await emulated.waitForListening());
+            await client.request('auth.hello', { token: TOKEN }, 'hello');
+            const ready = await client.request('terminal.create', { sessionId: mode, cols: 100, rows: 40 }, 't1');
+            assert.strictEqual(ready.result.mode, mode);
+
+            client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.input', params: { sessionId: mode, data: 'stty size; tty -s && echo "tty-$((1 + 1))"\n' } }));
+            assert.match(await outputUntil(client, 't1', 'tty-2'), /40 100/);
+
+            await client.request('terminal.resize', { sessionId: mode, cols: 120, rows: 50 }, 'r1');
+            // The resize is applied by stty in the background
+            let size = '';
+            while (!size.includes('50 120')) {
+                client.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'terminal.input', params: { sessionId: mode, data: 'stty size\n' } }));
+                size = await outputUntil(client, 't1', '\n');
+            }
+
+            // A kill that cannot be done is an error, not the end of the server or the session
+            const bogus = await client.request('terminal.kill', { sessionId: mode, signal: 'SIGBOGUS' }, 'k1');
+            assert.match(bogus.error.data, /Unknown signal SIGBOGUS/);
+            const { result: sessions } = await client.request('terminal.list', {}, 'list');
+            assert.ok(sessions.some(s => s.sessionId === mode));
+            client.ws.close();
+            await emulated.close();
+        });
+    }
+
+    it('kills a session straight away when it has no grace period', async () => {
+        const first = await authenticated();
+        await first.request('terminal.create', { sessionId: 'no-grace', gracePeriod: 0 }, 't1');
+        first.ws.close();
+        await first.closed;
+
+        const second = await authenticated();
+        const { result: sessions } = await second.request('terminal.list', {}, 'list');
+        assert.ok(!sessions.some(s => s.sessionId === 'no-grace'));
+        second.ws.close();
+    });
+});
+
+describe('AIXRemoteServer stdio transport', () => {
+    it('serves newline-delimited JSON-RPC without a token or a port', async () => {
+        const input = new PassThrough();
+        const output = new PassThrough();
+        const server = new AIXRemoteServer({ stdio: { input, output } });
+
+        const lines = [];
+        let buffered = '';
+        output.on('data', (chunk) => {
+            buffered += chunk.toString();
+            const parts = buffered.split('\n');
+            buffered = parts.pop();
+            lines.push(...parts.filter(Boolean).map(line => JSON.parse(line)));
+        });
+
+        input.write(JSON.stringify({ jsonrpc: '2.0', method: 'auth.hello', params: {}, id: 1 }) + '\n');
+        input.write(JSON.stringify({ jsonrpc: '2.0', method: 'fs.stat', params: { path: '/' }, id: 2 }) + '\n');
+
+        while (lines.length < 2) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        assert.strictEqual(typeof lines[0].result.ptySupported, 'boolean');
+        assert.strictEqual(lines[1].result.isDirectory, true);
+
+        input.end();
+        await server.close();
+    });
+});
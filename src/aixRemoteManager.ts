@@ -4,20 +4,10 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-
-interface RPCMessage {
-    jsonrpc: '2.0';
-    method: string;
-    params?: any;
-    id?: string | number;
-}
-
-interface RPCResponse {
-    jsonrpc: '2.0';
-    result?: any;
-    error?: { code: number; message: string; data?: any };
-    id: string | number | null;
-}
+import * as crypto from 'crypto';
+import { RPCMessage, RPCResponse, RPCTransport, StdioTransport, WebSocketTransport } from './rpcTransport';
+import { FileConflictError, RemoteFileSystemError } from './errors';
+import { StatCache } from './statCache';
 
 interface SSHConfig {
     host: string;
@@ -28,32 +18,195 @@ interface SSHConfig {
     [key: string]: any;
 }
 
+// Written by the remote server once it is listening; see writeServerInfo in server.ts
+const SERVER_INFO_FILE = '~/.aix-remote/server-$(hostname).json';
+// Hash of the server files last deployed, to tell when they are out of date
+const SERVER_HASH_FILE = '~/.aix-remote/server.hash';
+
+// Returned by the server when a write precondition no longer holds
+const RPC_WRITE_CONFLICT = -32010;
+// Returned by the server for a failed system call, with the errno code in data
+const RPC_FILE_SYSTEM_ERROR = -32011;
+
+// How long to wait for a response before giving up on a request. Methods
+// that can legitimately run for minutes get longer.
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+const METHOD_TIMEOUTS: { [method: string]: number } = {
+    'auth.hello': 10000,
+    'fs.stat': 15000,
+    'fs.lstat': 15000,
+    'fs.readDir': 60000,
+    'fs.readFile': 120000,
+    'fs.delete': 300000,
+    // Until the first scan of a polled tree is done
+    'fs.watch': 60000,
+    'fs.copy': 300000,
+    'terminal.exec': 600000
+};
+
+// Requests that are safe to send again when the connection drops before they
+// are answered; anything else fails rather than risk running twice
+const RETRYABLE_METHODS = new Set(['fs.stat', 'fs.lstat', 'fs.readlink', 'fs.readDir', 'fs.readFile', 'system.info']);
+// Sent to streaming handlers whose stream died with the connection
+const RPC_CONNECTION_LOST = -32099;
+
+// Reconnect after a dropped connection with exponential backoff
+const RECONNECT_INITIAL_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+const RECONNECT_MAX_ATTEMPTS = 10;
+
+// How long stat results and listings are reused before asking the server again
+const STAT_CACHE_TTL_MS = 5000;
+
+// Terminal output is acknowledged in steps of this many characters. Must stay
+// well below the server's flow-control low watermark (64K) or a paused
+// session would never resume.
+const TERMINAL_ACK_CHARS = 16 * 1024;
+
+// Files larger than this are transferred in chunks with a progress indicator
+const LARGE_FILE_THRESHOLD = 4 * 1024 * 1024;
+const CHUNK_SIZE = 1024 * 1024;
+
+interface ServerInfo {
+    port: number;
+    pid: number;
+}
+
 interface PendingRequest {
     resolve: Function;
     reject: Function;
     streamHandler?: (response: RPCResponse) => void;
+    // Kept so the request can be sent again after a reconnect
+    message?: RPCMessage;
+}
+
+/**
+ * A file watch that is re-established on the server after a reconnect
+ */
+interface WatchSubscription {
+    path: string;
+    options: { recursive: boolean; excludes: readonly string[] };
+    onChange: (changes: FileChange[]) => void;
+    requestId: number | null;
+    watchId: string | null;
 }
 
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
 export interface TerminalSession {
+    // Stable across reconnects; used to reattach to the shell on the server
+    id: string;
     onData: (callback: (data: string) => void) => void;
     onExit: (callback: (exitCode: number, signal?: number) => void) => void;
+    // The shell is running and takes input; fires again after each reattach
+    onReady: (callback: (info: TerminalReadyInfo) => void) => void;
     write: (data: string) => void;
     resize: (cols: number, rows: number) => void;
     kill: (signal?: string) => void;
     isReady: () => boolean;
+    // Resume after a reconnect, receiving whatever output was missed
+    reattach: () => Promise<void>;
+    // Stop listening to the session, e.g. after giving up on it starting
+    dispose: () => void;
+}
+
+export interface TerminalReadyInfo {
+    pid?: number;
+    shell?: string;
+    mode?: TerminalMode;
+    // Set when resuming a session that was already running
+    reattached: boolean;
+}
+
+/**
+ * How the server gave the shell a terminal: node-pty, script(1), its bundled
+ * PTY helper, or (with none of those) plain pipes
+ */
+export type TerminalMode = 'pty' | 'script' | 'helper' | 'spawn';
+
+/**
+ * How the shell of a new terminal session is started
+ */
+export interface TerminalLaunchOptions {
+    // Shell to run instead of the user's $SHELL, by name or path
+    shell?: string;
+    // Extra arguments for the shell
+    args?: string[];
+    // Start a login shell, which reads /etc/profile and ~/.profile
+    login?: boolean;
+    // Added to the environment, e.g. LIBPATH or OBJECT_MODE
+    env?: { [name: string]: string };
+    // TERM for the session; xterm-color by default
+    term?: string;
+}
+
+/**
+ * A terminal session as listed by the server
+ */
+export interface TerminalSessionInfo {
+    sessionId: string;
+    name?: string;
+    pid: number;
+    cwd: string;
+    shell: string;
+    mode?: TerminalMode;
+    createdAt: number;
+    detachedAt?: number;
+    attached: boolean;
 }
 
+export interface TransferOptions {
+    token?: vscode.CancellationToken;
+    onProgress?: (transferred: number, total: number) => void;
+}
+
+/**
+ * The version of a file as last read or written. Passed back with a write so
+ * the server can refuse it if someone else changed the file in between.
+ */
+export interface FileVersion {
+    mtime: number;
+    size: number;
+    hash?: string;
+}
+
+export interface WriteOptions {
+    // Both default to true on the server
+    create?: boolean;
+    overwrite?: boolean;
+    precondition?: FileVersion;
+}
+
+export interface FileChange {
+    type: 'created' | 'changed' | 'deleted';
+    path: string;
+}
+
+export interface CommandOptions {
+    // Added to the environment of the server
+    env?: { [name: string]: string };
+    // Shell that runs the command line; sh by default
+    shell?: string;
+}
+
+/**
+ * A command running on the host without a terminal. onData receives stdout
+ * and onError stderr; onExit reports the command's exit code, or null and
+ * the signal that ended it.
+ */
 export interface StreamingCommandResult {
     onData: (callback: (data: string) => void) => void;
     onError: (callback: (data: string) => void) => void;
-    onExit: (callback: (code: number) => void) => void;
+    onExit: (callback: (code: number | null, signal?: string) => void) => void;
     write: (data: string) => void;
+    // Close the command's stdin
+    end: () => void;
     kill: (signal?: string) => void;
 }
 
 export class AIXRemoteManager {
     private sshClient: SSHClient | null = null;
-    private wsClient: WebSocket | null = null;
+    private transport: RPCTransport | null = null;
     private connected: boolean = false;
     private host: string = '';
     private username: string = '';
@@ -61,6 +214,21 @@ export class AIXRemoteManager {
     private pendingRequests: Map<string | number, PendingRequest> = new Map();
     private sshConfigs: Map<string, SSHConfig> = new Map();
     private serverSupportsPTY: boolean = false;
+    private authToken: string | null = null;
+    private serverPort: number = 0;
+    private statCache = new StatCache(STAT_CACHE_TTL_MS);
+    private outgoingMessages: RPCMessage[] = [];
+    private watchSubscriptions: Set<WatchSubscription> = new Set();
+
+    // Remembered so a dropped connection can be re-established unattended
+    private connectionString: string = '';
+    private password: string | undefined;
+    private state: ConnectionState = 'disconnected';
+    private reconnectAttempt: number = 0;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+
+    private _onDidChangeConnectionState = new vscode.EventEmitter<ConnectionState>();
+    readonly onDidChangeConnectionState: vscode.Event<ConnectionState> = this._onDidChangeConnectionState.event;
 
     constructor() {
         this.loadSSHConfig();
@@ -70,25 +238,82 @@ export class AIXRemoteManager {
         const { username, hostname } = this.parseConnectionString(connectionString);
         this.username = username;
         this.host = hostname;
+        this.connectionString = connectionString;
+        this.password = password;
 
         console.log(`Connecting to ${username}@${hostname}`);
 
+        this.setState('connecting');
+        try {
+            await this.establishConnection();
+        } catch (error) {
+            this.teardownConnection();
+            this.setState('disconnected');
+            throw error;
+        }
+        this.connected = true;
+        this.setState('connected');
+    }
+
+    getConnectionState(): ConnectionState {
+        return this.state;
+    }
+
+    /**
+     * Connect again with the details of the last connection, e.g. after
+     * automatic reconnection gave up
+     */
+    async reconnect(): Promise<void> {
+        if (!this.connectionString) {
+            throw new Error('No previous connection to restore');
+        }
+        await this.connect(this.connectionString, this.password);
+    }
+
+    private setState(state: ConnectionState): void {
+        if (this.state !== state) {
+            this.state = state;
+            this._onDidChangeConnectionState.fire(state);
+        }
+    }
+
+    /**
+     * Open the SSH connection, start or reach the server and authenticate.
+     * Shared by connect and by automatic reconnection.
+     */
+    private async establishConnection(): Promise<void> {
+        const hostname = this.host;
+        const username = this.username;
+        const password = this.password;
+
         return new Promise((resolve, reject) => {
-            this.sshClient = new SSHClient();
+            const sshClient = new SSHClient();
+            this.sshClient = sshClient;
             
-            this.sshClient.on('ready', async () => {
+            sshClient.on('ready', async () => {
                 console.log('SSH connection established');
                 
                 try {
-                    // Ensure server is running with auto-deployment
-                    console.log('Ensuring server is running...');
-                    await this.ensureServerRunning();
-                    
-                    // Then connect via WebSocket
-                    console.log('Connecting to WebSocket...');
-                    await this.connectWebSocket();
+                    if (this.getTransportMode() === 'stdio') {
+                        // Run the server on this SSH session's exec channel - no port is opened
+                        console.log('Ensuring server is deployed...');
+                        await this.ensureServerDeployed();
+
+                        console.log('Starting server over stdio...');
+                        await this.connectStdio();
+                    } else {
+                        // Ensure server is running with auto-deployment
+                        console.log('Ensuring server is running...');
+                        await this.ensureServerRunning();
+                        
+                        // Then connect via WebSocket
+                        console.log('Connecting to WebSocket...');
+                        await this.connectWebSocket();
+                    }
+
+                    // The server rejects every request until the handshake succeeds
+                    await this.authenticate();
                     
-                    this.connected = true;
                     resolve();
                 } catch (error) {
                     console.error('Connection failed:', error);
@@ -96,11 +321,16 @@ export class AIXRemoteManager {
                 }
             });
 
-            this.sshClient.on('error', (error: any) => {
+            sshClient.on('error', (error: any) => {
                 console.error('SSH connection error:', error);
                 reject(error);
             });
 
+            sshClient.on('close', () => {
+                reject(new Error('SSH connection closed'));
+                this.handleConnectionLost(sshClient);
+            });
+
             // Get SSH configuration
             try {
                 const sshConfig = this.getSSHConfig(hostname, username);
@@ -111,7 +341,7 @@ export class AIXRemoteManager {
                     sshConfig.password = password;
                 }
                 
-                this.sshClient.connect(sshConfig);
+                sshClient.connect(sshConfig);
             } catch (configError) {
                 console.error('SSH config error:', configError);
                 reject(configError);
@@ -206,6 +436,36 @@ export class AIXRemoteManager {
         return sshConfig;
     }
 
+    private getTransportMode(): 'stdio' | 'websocket' {
+        return vscode.workspace.getConfiguration('aixRemote').get<'stdio' | 'websocket'>('transport', 'stdio');
+    }
+
+    /**
+     * Make sure the server files on the host are the ones this extension
+     * ships; in stdio mode each connection starts its own server process, so
+     * nothing needs to be running yet
+     */
+    private async ensureServerDeployed(): Promise<void> {
+        const paths = this.getServerPaths();
+        // Without a build, deployServerFiles says what is missing
+        const expected = fs.existsSync(paths.dist) ? hashServerFiles(paths) : undefined;
+        const deployed = await this.execCommand(`test -f ~/.aix-remote/dist/server.js && cat ${SERVER_HASH_FILE} 2>/dev/null || true`);
+        if (deployed === expected) {
+            console.log('✅ Server already deployed');
+            return;
+        }
+        console.log(deployed ? 'Deployed server is out of date, redeploying...' : 'Server not deployed, deploying...');
+        await this.deployServerFiles();
+        await this.setupNodePty();
+    }
+
+    private getServerPaths(): { dist: string; packageJson: string } {
+        return {
+            dist: path.join(__dirname, '../server/dist'),
+            packageJson: path.join(__dirname, '../server/package.json')
+        };
+    }
+
     private async ensureServerRunning(): Promise<void> {
         if (!this.sshClient) {
             throw new Error('No SSH connection');
@@ -216,7 +476,13 @@ export class AIXRemoteManager {
         // Step 1: Check if server is already running
         try {
             console.log('Step 1: Testing if server is already running...');
+            const info = await this.readServerInfo();
+            if (!info) {
+                throw new Error('No server info file');
+            }
+            this.serverPort = info.port;
             await this.testServerConnection();
+            this.authToken = await this.readAuthToken();
             console.log('✅ Server already running and responding');
             return;
         } catch (error) {
@@ -227,8 +493,9 @@ export class AIXRemoteManager {
         console.log('Step 2: Deploying server files...');
         await this.deployServerFiles();
 
-        // Step 3: Start server
+        // Step 3: Start server with a fresh secret for this deployment
         console.log('Step 3: Starting server...');
+        this.authToken = await this.generateAuthToken();
         await this.startRemoteServer();
 
         // Step 4: Wait for server to be ready
@@ -238,26 +505,101 @@ export class AIXRemoteManager {
         console.log('✅ Server is running and ready!');
     }
 
+    /**
+     * Find our own server's port and PID on this host, if one was started
+     */
+    private async readServerInfo(): Promise<ServerInfo | null> {
+        try {
+            const output = await this.execCommand(`cat ${SERVER_INFO_FILE} 2>/dev/null || true`);
+            if (!output) {
+                return null;
+            }
+            const info = JSON.parse(output);
+            if (typeof info.port === 'number' && typeof info.pid === 'number') {
+                return { port: info.port, pid: info.pid };
+            }
+        } catch (error) {
+            console.log('Could not read server info:', error);
+        }
+        return null;
+    }
+
+    /**
+     * Check that the server answers on its port the way connectWebSocket
+     * would reach it: directly, or over SSH where a firewall only lets SSH
+     * through. Failing this check means redeploying, which ends every
+     * detached terminal session, so the tunnel must be tried too.
+     */
     private async testServerConnection(): Promise<void> {
+        try {
+            await this.probeServer(new WebSocket(`ws://${this.host}:${this.serverPort}`));
+        } catch (error) {
+            console.log('Server not reachable directly, trying SSH tunnel...');
+            const stream = await this.forwardServerPort();
+            await this.probeServer(new WebSocket(`ws://127.0.0.1:${this.serverPort}`, { createConnection: () => stream }));
+        }
+    }
+
+    private probeServer(testWs: WebSocket): Promise<void> {
         return new Promise((resolve, reject) => {
-            const testWs = new WebSocket(`ws://${this.host}:8080`);
-            
+            const timer = setTimeout(() => {
+                testWs.close();
+                reject(new Error('Connection timeout'));
+            }, 5000);
+
             testWs.on('open', () => {
+                clearTimeout(timer);
                 testWs.close();
                 resolve();
             });
 
             testWs.on('error', () => {
+                clearTimeout(timer);
                 reject(new Error('Server not responding'));
             });
+        });
+    }
 
-            setTimeout(() => {
-                testWs.close();
-                reject(new Error('Connection timeout'));
-            }, 5000);
+    private forwardServerPort(): Promise<any> {
+        return new Promise((resolve, reject) => {
+            if (!this.sshClient) {
+                reject(new Error('No SSH connection'));
+                return;
+            }
+            this.sshClient.forwardOut('127.0.0.1', 0, '127.0.0.1', this.serverPort, (err: any, stream: any) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(stream);
+                }
+            });
         });
     }
 
+    /**
+     * Generate a new shared secret on the remote host, readable only by the user
+     */
+    private async generateAuthToken(): Promise<string> {
+        const command = 'umask 077 && mkdir -p ~/.aix-remote && ' +
+            'od -An -N32 -tx1 /dev/urandom | tr -d \' \\n\' > ~/.aix-remote/auth.token.tmp && ' +
+            'chmod 600 ~/.aix-remote/auth.token.tmp && ' +
+            'mv -f ~/.aix-remote/auth.token.tmp ~/.aix-remote/auth.token && ' +
+            'cat ~/.aix-remote/auth.token';
+        const token = await this.execCommandWithTimeout(command, 30000, { silent: true });
+        if (!/^[0-9a-f]{64}$/.test(token)) {
+            throw new Error('Failed to generate server authentication token');
+        }
+        return token;
+    }
+
+    private async readAuthToken(): Promise<string> {
+        const token = await this.execCommandWithTimeout('cat ~/.aix-remote/auth.token', 30000, { silent: true });
+        if (!token) {
+            throw new Error('Server authentication token is missing');
+        }
+        return token;
+    }
+
     private async deployServerFiles(): Promise<void> {
         try {
             // Create remote directory structure first via SSH
@@ -265,8 +607,7 @@ export class AIXRemoteManager {
             await this.execCommand('mkdir -p ~/.aix-remote');
 
             // Get local server paths
-            const serverDistPath = path.join(__dirname, '../server/dist');
-            const packageJsonPath = path.join(__dirname, '../server/package.json');
+            const { dist: serverDistPath, packageJson: packageJsonPath } = this.getServerPaths();
 
             // Check if local files exist
             if (!fs.existsSync(serverDistPath)) {
@@ -288,6 +629,9 @@ export class AIXRemoteManager {
             console.log('Installing dependencies on remote machine...');
             await this.execCommandWithTimeout('cd ~/.aix-remote && export PATH="/opt/nodejs/bin:$PATH" && npm install --production', 120000); // 2 minute timeout
 
+            // Last, so a deployment cut short is redone next time
+            await this.execCommand(`echo ${hashServerFiles({ dist: serverDistPath, packageJson: packageJsonPath })} > ${SERVER_HASH_FILE}`);
+
             console.log('✅ Server files deployed successfully');
 
         } catch (error) {
@@ -338,16 +682,10 @@ export class AIXRemoteManager {
 
     private async startRemoteServer(): Promise<void> {
         try {
-            // Kill any existing server processes
-            console.log('Stopping any existing server processes...');
-            await this.execCommand('export PATH="/opt/nodejs/bin:$PATH" && pkill -f "node.*server.js" 2>/dev/null || true');
+            // Stop our own previous server, leaving other users' servers alone
+            await this.stopRemoteServer();
 
-            // Wait a moment for processes to die
-            await new Promise(resolve => setTimeout(resolve, 2000));
-
-            // Setup node-pty if available
-            console.log('Setting up node-pty...');
-            await this.execCommand('cd ~/.aix-remote && export PATH="/opt/nodejs/bin:$PATH" && node setup-nodepty.js || echo "node-pty setup skipped"');
+            await this.setupNodePty();
 
             // Start server
             console.log('Starting AIX remote server...');
@@ -364,12 +702,40 @@ export class AIXRemoteManager {
         }
     }
 
+    private async stopRemoteServer(): Promise<void> {
+        const info = await this.readServerInfo();
+        if (!info) {
+            return;
+        }
+
+        console.log(`Stopping previous server process ${info.pid}...`);
+        // Only signal the PID if it still belongs to a server process
+        await this.execCommand(
+            `if ps -p ${info.pid} -o args= | grep "dist/server.js" >/dev/null 2>&1; then kill ${info.pid}; fi; ` +
+            `rm -f ${SERVER_INFO_FILE}`
+        );
+
+        // Wait a moment for the process to die
+        await new Promise(resolve => setTimeout(resolve, 2000));
+    }
+
+    private async setupNodePty(): Promise<void> {
+        // Setup node-pty if available
+        console.log('Setting up node-pty...');
+        await this.execCommand('cd ~/.aix-remote && export PATH="/opt/nodejs/bin:$PATH" && node setup-nodepty.js || echo "node-pty setup skipped"');
+    }
+
     private async waitForServerReady(): Promise<void> {
         console.log('Waiting for server to respond...');
         
         for (let i = 0; i < 15; i++) {
             try {
                 console.log(`Testing connection attempt ${i + 1}/15...`);
+                const info = await this.readServerInfo();
+                if (!info) {
+                    throw new Error('Server has not published its port yet');
+                }
+                this.serverPort = info.port;
                 await this.testServerConnection();
                 console.log('🎉 Server is responding!');
                 return;
@@ -379,7 +745,7 @@ export class AIXRemoteManager {
                 // Show server status after a few attempts
                 if (i === 7) {
                     try {
-                        const processCheck = await this.execCommand('ps aux | grep "node.*server.js" | grep -v grep || echo "No server process found"');
+                        const processCheck = await this.execCommand(`ps -fu "$(id -un)" | grep "dist/server.js" | grep -v grep || echo "No server process found"`);
                         console.log('Server process check:', processCheck);
                         
                         const logContent = await this.execCommand('tail -5 ~/.aix-remote/server.log 2>/dev/null || echo "No log file"');
@@ -400,7 +766,7 @@ export class AIXRemoteManager {
         return this.execCommandWithTimeout(command, 30000); // Default 30s timeout
     }
 
-    private async execCommandWithTimeout(command: string, timeoutMs: number): Promise<string> {
+    private async execCommandWithTimeout(command: string, timeoutMs: number, options: { silent?: boolean } = {}): Promise<string> {
         return new Promise((resolve, reject) => {
             if (!this.sshClient) {
                 reject(new Error('No SSH connection'));
@@ -422,8 +788,8 @@ export class AIXRemoteManager {
                 stream.on('data', (data: any) => {
                     const text = data.toString();
                     output += text;
-                    // Show progress for long-running commands
-                    if (text.length > 0) {
+                    // Show progress for long-running commands (never for secrets)
+                    if (text.length > 0 && !options.silent) {
                         console.log('Command output:', text.trim());
                     }
                 });
@@ -442,7 +808,9 @@ export class AIXRemoteManager {
                     if (code === 0) {
                         resolve(output.trim());
                     } else {
-                        const errorMsg = `Command failed with exit code ${code}. Output: ${output}, Error: ${errorOutput}`;
+                        const errorMsg = options.silent ?
+                            `Command failed with exit code ${code}. Error: ${errorOutput}` :
+                            `Command failed with exit code ${code}. Output: ${output}, Error: ${errorOutput}`;
                         console.error(errorMsg);
                         reject(new Error(errorMsg));
                     }
@@ -462,6 +830,35 @@ export class AIXRemoteManager {
         });
     }
 
+    private async connectStdio(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this.sshClient) {
+                reject(new Error('No SSH connection'));
+                return;
+            }
+
+            const command = 'cd ~/.aix-remote && export PATH="/opt/nodejs/bin:$PATH" && exec node dist/server.js --stdio';
+            this.sshClient.exec(command, { pty: false }, (err, stream) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+
+                const transport: RPCTransport = new StdioTransport(
+                    stream,
+                    (response) => this.handleResponse(response),
+                    () => {
+                        console.log('Server stdio channel closed');
+                        this.handleConnectionLost(transport);
+                    }
+                );
+                this.transport = transport;
+                console.log('Server started over SSH exec channel');
+                resolve();
+            });
+        });
+    }
+
     private async connectWebSocket(): Promise<void> {
         // Try direct connection first, then SSH tunnel
         try {
@@ -472,38 +869,62 @@ export class AIXRemoteManager {
         }
     }
 
+    private async authenticate(): Promise<void> {
+        // Over stdio the SSH session itself authenticates us
+        if (!this.authToken && this.getTransportMode() !== 'stdio') {
+            throw new Error('No server authentication token available');
+        }
+
+        try {
+            const welcome = await this.dispatchRequest('auth.hello', this.authToken ? { token: this.authToken } : {});
+            console.log('Authenticated with server:', welcome);
+            if (welcome && welcome.ptySupported !== undefined) {
+                this.serverSupportsPTY = welcome.ptySupported;
+                console.log(`Server PTY support: ${this.serverSupportsPTY ? 'Yes' : 'No'}`);
+            }
+        } catch (error) {
+            if (this.transport) {
+                this.transport.close();
+                this.transport = null;
+            }
+            throw new Error(`Server authentication failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     private async connectWebSocketDirect(): Promise<void> {
         return new Promise((resolve, reject) => {
-            console.log(`Trying direct WebSocket connection to ${this.host}:8080`);
+            console.log(`Trying direct WebSocket connection to ${this.host}:${this.serverPort}`);
             
-            this.wsClient = new WebSocket(`ws://${this.host}:8080`);
+            const wsClient = new WebSocket(`ws://${this.host}:${this.serverPort}`);
 
-            this.wsClient.on('open', () => {
+            const transport = new WebSocketTransport(wsClient);
+            wsClient.on('open', () => {
                 console.log('Direct WebSocket connection established');
+                this.transport = transport;
                 resolve();
             });
 
-            this.wsClient.on('message', (data: WebSocket.Data) => {
+            wsClient.on('message', (data: WebSocket.Data) => {
                 try {
-                    const response: RPCResponse = JSON.parse(data.toString());
+                    const response: RPCResponse | RPCResponse[] = JSON.parse(data.toString());
                     this.handleResponse(response);
                 } catch (error) {
                     console.error('Failed to parse WebSocket message:', error);
                 }
             });
 
-            this.wsClient.on('error', (error: any) => {
+            wsClient.on('error', (error: any) => {
                 reject(error);
             });
 
-            this.wsClient.on('close', () => {
+            wsClient.on('close', () => {
                 console.log('WebSocket connection closed');
-                this.connected = false;
+                this.handleConnectionLost(transport);
             });
 
             setTimeout(() => {
-                if (this.wsClient && this.wsClient.readyState !== WebSocket.OPEN) {
-                    this.wsClient.close();
+                if (wsClient.readyState !== WebSocket.OPEN) {
+                    wsClient.close();
                     reject(new Error('Direct connection timeout'));
                 }
             }, 5000);
@@ -512,57 +933,181 @@ export class AIXRemoteManager {
 
     private async connectWebSocketTunnel(): Promise<void> {
         return new Promise((resolve, reject) => {
-            if (!this.sshClient) {
-                reject(new Error('No SSH connection'));
-                return;
-            }
-
             console.log('Creating SSH tunnel for WebSocket...');
             
-            this.sshClient.forwardOut('127.0.0.1', 0, '127.0.0.1', 8080, (err: any, stream: any) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
-
-                this.wsClient = new WebSocket('ws://127.0.0.1:8080', {
+            this.forwardServerPort().then((stream: any) => {
+                const wsClient = new WebSocket(`ws://127.0.0.1:${this.serverPort}`, {
                     createConnection: () => stream
                 });
 
-                this.wsClient.on('open', () => {
+                const transport = new WebSocketTransport(wsClient);
+                wsClient.on('open', () => {
                     console.log('Tunneled WebSocket connection established');
+                    this.transport = transport;
                     resolve();
                 });
 
-                this.wsClient.on('message', (data: WebSocket.Data) => {
+                wsClient.on('message', (data: WebSocket.Data) => {
                     try {
-                        const response: RPCResponse = JSON.parse(data.toString());
+                        const response: RPCResponse | RPCResponse[] = JSON.parse(data.toString());
                         this.handleResponse(response);
                     } catch (error) {
                         console.error('Failed to parse WebSocket message:', error);
                     }
                 });
 
-                this.wsClient.on('error', (error: any) => {
+                wsClient.on('error', (error: any) => {
                     reject(error);
                 });
 
-                this.wsClient.on('close', () => {
+                wsClient.on('close', () => {
                     console.log('Tunneled WebSocket connection closed');
-                    this.connected = false;
+                    this.handleConnectionLost(transport);
                 });
-            });
+            }, reject);
         });
     }
 
-    private handleResponse(response: RPCResponse) {
-        if (response.id === 'welcome') {
-            console.log('Received welcome message:', response.result);
-            // Check if server supports PTY
-            if (response.result && response.result.ptySupported !== undefined) {
-                this.serverSupportsPTY = response.result.ptySupported;
-                console.log(`Server PTY support: ${this.serverSupportsPTY ? 'Yes' : 'No'}`);
+    /**
+     * The SSH session or the server channel went away without us asking.
+     * Fail what cannot be retried and start reconnecting.
+     */
+    private handleConnectionLost(source: SSHClient | RPCTransport): void {
+        // Ignore the old connection closing after we already replaced it or
+        // disconnected on purpose
+        if (this.state !== 'connected' || (source !== this.sshClient && source !== this.transport)) {
+            return;
+        }
+
+        console.log('Connection to AIX machine lost, reconnecting...');
+        this.connected = false;
+        this.teardownConnection();
+        this.setState('reconnecting');
+        this.failPendingRequests(new Error('Connection to AIX machine lost'), true);
+        this.reconnectAttempt = 0;
+        this.scheduleReconnect();
+    }
+
+    private scheduleReconnect(): void {
+        if (this.reconnectAttempt >= RECONNECT_MAX_ATTEMPTS) {
+            console.log(`Giving up after ${this.reconnectAttempt} reconnection attempts`);
+            this.failPendingRequests(new Error('Connection to AIX machine lost'), false);
+            this.watchSubscriptions.clear();
+            this.setState('disconnected');
+            return;
+        }
+
+        const delay = Math.min(RECONNECT_INITIAL_DELAY_MS * 2 ** this.reconnectAttempt, RECONNECT_MAX_DELAY_MS);
+        this.reconnectAttempt++;
+        console.log(`Reconnection attempt ${this.reconnectAttempt} in ${delay / 1000}s`);
+
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = null;
+            try {
+                await this.establishConnection();
+            } catch (error) {
+                console.log('Reconnection failed:', error instanceof Error ? error.message : String(error));
+                this.teardownConnection();
+                if (this.state === 'reconnecting') {
+                    this.scheduleReconnect();
+                }
+                return;
             }
+
+            // disconnect() may have been called while we were connecting
+            if (this.state !== 'reconnecting') {
+                this.teardownConnection();
+                return;
+            }
+
+            this.connected = true;
+            this.reconnectAttempt = 0;
+            this.resumeAfterReconnect();
+            this.setState('connected');
+        }, delay);
+    }
+
+    /**
+     * Resend requests that were waiting when the connection dropped, and
+     * watch again whatever was being watched
+     */
+    private resumeAfterReconnect(): void {
+        for (const pending of this.pendingRequests.values()) {
+            if (pending.message && !pending.streamHandler) {
+                this.queueMessage(pending.message);
+            }
+        }
+
+        for (const subscription of this.watchSubscriptions) {
+            this.subscribeWatch(subscription).catch(error => {
+                console.error(`Failed to watch ${subscription.path} again:`, error);
+            });
+        }
+    }
+
+    /**
+     * Reject requests that are waiting for an answer. Streams are told their
+     * connection is gone; with `keepRetryable`, idempotent requests are kept
+     * to be sent again after reconnecting.
+     */
+    private failPendingRequests(error: Error, keepRetryable: boolean): void {
+        this.outgoingMessages = [];
+        for (const [id, pending] of Array.from(this.pendingRequests.entries())) {
+            if (keepRetryable && !pending.streamHandler && pending.message && RETRYABLE_METHODS.has(pending.message.method)) {
+                continue;
+            }
+            this.pendingRequests.delete(id);
+            if (pending.streamHandler) {
+                pending.streamHandler({
+                    jsonrpc: '2.0',
+                    error: { code: RPC_CONNECTION_LOST, message: error.message },
+                    id
+                });
+            } else {
+                pending.reject(error);
+            }
+        }
+    }
+
+    private teardownConnection(): void {
+        const transport = this.transport;
+        const sshClient = this.sshClient;
+        this.transport = null;
+        this.sshClient = null;
+        this.statCache.clear();
+
+        transport?.close();
+        sshClient?.end();
+    }
+
+    /**
+     * Wait for an interrupted connection to come back
+     */
+    private waitForReconnection(token?: vscode.CancellationToken): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const subscriptions: vscode.Disposable[] = [];
+            const settle = (error?: Error) => {
+                subscriptions.forEach(subscription => subscription.dispose());
+                error ? reject(error) : resolve();
+            };
+
+            subscriptions.push(this.onDidChangeConnectionState(state => {
+                if (state === 'connected') {
+                    settle();
+                } else if (state !== 'reconnecting') {
+                    settle(new Error('Not connected to AIX machine'));
+                }
+            }));
+            if (token) {
+                subscriptions.push(token.onCancellationRequested(() => settle(new vscode.CancellationError())));
+            }
+        });
+    }
+
+    private handleResponse(response: RPCResponse | RPCResponse[]) {
+        // The server answers batch members one by one, but arrays are allowed
+        if (Array.isArray(response)) {
+            response.forEach(item => this.handleResponse(item));
             return;
         }
 
@@ -576,7 +1121,7 @@ export class AIXRemoteManager {
             if (pending.streamHandler) {
                 pending.streamHandler(response);
                 // Only delete when we get an 'exit' type response
-                if (response.result && (response.result.type === 'exit' || response.error)) {
+                if (response.error || (response.result && response.result.type === 'exit')) {
                     this.pendingRequests.delete(response.id);
                 }
             } else {
@@ -584,7 +1129,7 @@ export class AIXRemoteManager {
                 this.pendingRequests.delete(response.id);
                 
                 if (response.error) {
-                    pending.reject(new Error(response.error.message));
+                    pending.reject(this.createError(response.error));
                 } else {
                     pending.resolve(response.result);
                 }
@@ -592,11 +1137,36 @@ export class AIXRemoteManager {
         }
     }
 
-    private async sendRequest(method: string, params?: any): Promise<any> {
-        if (!this.wsClient || !this.connected) {
+    private createError(error: NonNullable<RPCResponse['error']>): Error {
+        if (error.code === RPC_WRITE_CONFLICT && error.data) {
+            return new FileConflictError(error.data.path, { mtime: error.data.mtime, size: error.data.size });
+        }
+        if (error.code === RPC_FILE_SYSTEM_ERROR && error.data) {
+            return new RemoteFileSystemError(error.message, error.data.errno, error.data.path);
+        }
+        return new Error(error.data ? `${error.message}: ${error.data}` : error.message);
+    }
+
+    private async sendRequest(method: string, params?: any, token?: vscode.CancellationToken): Promise<any> {
+        // Hold requests made while the connection is being restored
+        if (this.state === 'reconnecting') {
+            await this.waitForReconnection(token);
+        }
+        if (!this.transport || !this.connected) {
             throw new Error('Not connected to AIX machine');
         }
 
+        return this.dispatchRequest(method, params, token);
+    }
+
+    private async dispatchRequest(method: string, params?: any, token?: vscode.CancellationToken): Promise<any> {
+        if (!this.transport) {
+            throw new Error('Not connected to AIX machine');
+        }
+        if (token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+
         const id = ++this.requestId;
         const message: RPCMessage = {
             jsonrpc: '2.0',
@@ -604,175 +1174,667 @@ export class AIXRemoteManager {
             params,
             id
         };
+        const timeoutMs = METHOD_TIMEOUTS[method] ?? DEFAULT_REQUEST_TIMEOUT_MS;
 
         return new Promise((resolve, reject) => {
-            this.pendingRequests.set(id, { resolve, reject });
-            
-            this.wsClient!.send(JSON.stringify(message));
-            
-            setTimeout(() => {
-                if (this.pendingRequests.has(id)) {
-                    this.pendingRequests.delete(id);
-                    reject(new Error('Request timeout'));
-                }
-            }, 30000);
+            let cancellation: vscode.Disposable | undefined;
+            const timer = setTimeout(() => {
+                this.abandonRequest(id, new Error(`Request timeout: ${method} took longer than ${timeoutMs / 1000}s`));
+            }, timeoutMs);
+            const settle = () => {
+                clearTimeout(timer);
+                cancellation?.dispose();
+            };
+
+            this.pendingRequests.set(id, {
+                resolve: (result: any) => { settle(); resolve(result); },
+                reject: (error: Error) => { settle(); reject(error); },
+                message
+            });
+            cancellation = token?.onCancellationRequested(() => this.abandonRequest(id, new vscode.CancellationError()));
+
+            this.queueMessage(message);
         });
     }
 
+    /**
+     * Stop waiting for a request and tell the server to stop working on it
+     */
+    private abandonRequest(id: number, error: Error): void {
+        const pending = this.pendingRequests.get(id);
+        if (!pending) {
+            return;
+        }
+        this.pendingRequests.delete(id);
+        pending.reject(error);
+
+        if (this.transport?.isOpen()) {
+            this.queueMessage({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id } });
+        }
+    }
+
+    /**
+     * Requests made in the same tick, e.g. the stats VS Code issues for every
+     * entry it lists, go out together as one JSON-RPC batch
+     */
+    private queueMessage(message: RPCMessage): void {
+        this.outgoingMessages.push(message);
+        if (this.outgoingMessages.length === 1) {
+            process.nextTick(() => this.flushMessages());
+        }
+    }
+
+    private flushMessages(): void {
+        const messages = this.outgoingMessages;
+        this.outgoingMessages = [];
+        if (messages.length === 0) {
+            return;
+        }
+
+        try {
+            if (!this.transport) {
+                throw new Error('Not connected to AIX machine');
+            }
+            this.transport.send(messages.length === 1 ? messages[0] : messages);
+        } catch (error) {
+            for (const message of messages) {
+                const pending = message.id !== undefined ? this.pendingRequests.get(message.id) : undefined;
+                if (pending) {
+                    this.pendingRequests.delete(message.id!);
+                    pending.reject(error instanceof Error ? error : new Error(String(error)));
+                }
+            }
+        }
+    }
+
     /**
      * Create a new terminal session with PTY support
      */
-    async createTerminalSession(cwd?: string, cols: number = 80, rows: number = 24): Promise<TerminalSession> {
-        if (!this.wsClient || !this.connected) {
+    async createTerminalSession(cwd?: string, cols: number = 80, rows: number = 24, name?: string,
+                                launch: TerminalLaunchOptions = {}): Promise<TerminalSession> {
+        if (!this.transport || !this.connected) {
             throw new Error('Not connected to AIX machine');
         }
 
-        const id = ++this.requestId;
-        const message: RPCMessage = {
-            jsonrpc: '2.0',
-            method: 'terminal.create',
-            params: { cwd: cwd || this.getDefaultPath(), cols, rows },
-            id
-        };
+        // The server keeps the shell running for this long after the
+        // connection drops, so the terminal can pick up where it left off
+        const gracePeriod = vscode.workspace.getConfiguration('aixRemote').get<number>('terminal.detachGracePeriod', 300);
+        // bash and ksh then report the working directory and exit statuses
+        const shellIntegration = vscode.workspace.getConfiguration('aixRemote').get<boolean>('terminal.shellIntegration', true);
+        // Options given for this terminal win over the host's settings
+        const hostDefaults = this.getHostTerminalSettings();
+        const sessionId = crypto.randomUUID();
+        const session = this.openTerminalSession(sessionId);
+        session.start('terminal.create', {
+            cwd: cwd || this.getDefaultPath(),
+            cols,
+            rows,
+            sessionId,
+            name,
+            gracePeriod,
+            shellIntegration,
+            shell: launch.shell ?? hostDefaults.shell,
+            args: launch.args ?? hostDefaults.args,
+            login: launch.login ?? hostDefaults.login,
+            env: { ...hostDefaults.env, ...launch.env },
+            term: launch.term ?? hostDefaults.term
+        }).catch(() => session.end(-1));
+        return session.terminal;
+    }
+
+    /**
+     * Terminal settings for the connected host from aixRemote.terminal.hosts,
+     * keyed by the host as given when connecting
+     */
+    private getHostTerminalSettings(): TerminalLaunchOptions {
+        const hosts = vscode.workspace.getConfiguration('aixRemote').get<{ [host: string]: TerminalLaunchOptions }>('terminal.hosts', {});
+        return hosts[this.host] || {};
+    }
+
+    /**
+     * Attach to a session that is still running on the server, e.g. one left
+     * detached by an earlier window. Its buffered output is replayed.
+     */
+    async attachTerminalSession(sessionId: string): Promise<TerminalSession> {
+        if (!this.transport || !this.connected) {
+            throw new Error('Not connected to AIX machine');
+        }
+
+        const session = this.openTerminalSession(sessionId);
+        await session.start('terminal.attach', { sessionId, since: 0 });
+        return session.terminal;
+    }
+
+    async listTerminalSessions(): Promise<TerminalSessionInfo[]> {
+        return this.sendRequest('terminal.list', {});
+    }
 
+    /**
+     * Client side of a terminal session. Output streams back under the id of
+     * the request that created or last attached to the session, so each
+     * attach registers a new stream handler.
+     */
+    private openTerminalSession(sessionId: string): {
+        terminal: TerminalSession;
+        start: (method: string, params: any) => Promise<void>;
+        end: (exitCode: number) => void;
+    } {
         const callbacks = {
             onData: [] as ((data: string) => void)[],
-            onExit: [] as ((exitCode: number, signal?: number) => void)[]
+            onExit: [] as ((exitCode: number, signal?: number) => void)[],
+            onReady: [] as ((info: TerminalReadyInfo) => void)[]
         };
 
         let ready = false;
+        // The request output currently streams back under, and how to fail
+        // its start if the session is given up on first
+        let streamId: number | undefined;
+        let abandon: (() => void) | undefined;
+        // Characters received so far, which is where a reattach resumes
+        let received = 0;
+        // Characters shown but not yet acknowledged to the server
+        let unacknowledged = 0;
+
+        const end = (exitCode: number, signal?: number) => {
+            ready = false;
+            callbacks.onExit.forEach(cb => cb(exitCode, signal));
+        };
+
+        const start = (method: string, params: any): Promise<void> => {
+            if (!this.transport || !this.connected) {
+                return Promise.reject(new Error('Not connected to AIX machine'));
+            }
+
+            const id = ++this.requestId;
+            streamId = id;
+            // The server starts counting afresh on every attach
+            unacknowledged = 0;
+            return new Promise<void>((resolve, reject) => {
+                let started = false;
+                abandon = () => reject(new Error(`Terminal session ${sessionId} was abandoned`));
+                // Set up streaming response handler
+                const streamHandler = (response: RPCResponse) => {
+                    if (response.error) {
+                        ready = false;
+                        if (!started) {
+                            // Left to the caller, who may start a new shell instead
+                            reject(this.createError(response.error));
+                        } else if (response.error.code !== RPC_CONNECTION_LOST) {
+                            // The session is gone on the server
+                            end(-1);
+                        }
+                        // Otherwise the shell may still be running; reattach() resumes it
+                        return;
+                    }
+                    if (response.result) {
+                        const { type, data, exitCode, signal, pid, shell, mode } = response.result;
+                        switch (type) {
+                            case 'ready':
+                                ready = true;
+                                started = true;
+                                console.log(`Terminal session ${sessionId} ready, PID: ${pid || 'unknown'}`);
+                                callbacks.onReady.forEach(cb => cb({ pid, shell, mode, reattached: !!response.result.reattached }));
+                                resolve();
+                                break;
+                            case 'data':
+                                received += data.length;
+                                callbacks.onData.forEach(cb => cb(data));
+                                unacknowledged += data.length;
+                                if (unacknowledged >= TERMINAL_ACK_CHARS) {
+                                    notify('terminal.ack', { chars: unacknowledged });
+                                    unacknowledged = 0;
+                                }
+                                break;
+                            case 'exit':
+                                end(exitCode, signal);
+                                break;
+                        }
+                    }
+                };
+
+                // Store stream handler
+                this.pendingRequests.set(id, {
+                    resolve: () => {},
+                    reject: () => {},
+                    streamHandler
+                });
+
+                // Output is paused on the server when our acknowledgements fall behind
+                this.transport!.send({ jsonrpc: '2.0', method, params: { ...params, flowControl: true }, id });
+            });
+        };
 
-        // Set up streaming response handler
+        const notify = (method: string, params: any) => {
+            if (this.transport && this.connected) {
+                this.transport.send({ jsonrpc: '2.0', method, params: { sessionId, ...params } });
+            }
+        };
+
+        const terminal: TerminalSession = {
+            id: sessionId,
+            onData: (callback: (data: string) => void) => {
+                callbacks.onData.push(callback);
+            },
+            onExit: (callback: (exitCode: number, signal?: number) => void) => {
+                callbacks.onExit.push(callback);
+            },
+            onReady: (callback: (info: TerminalReadyInfo) => void) => {
+                callbacks.onReady.push(callback);
+            },
+            write: (data: string) => notify('terminal.input', { data }),
+            resize: (cols: number, rows: number) => notify('terminal.resize', { cols, rows }),
+            kill: (signal: string = 'SIGTERM') => notify('terminal.kill', { signal }),
+            isReady: () => ready,
+            reattach: () => start('terminal.attach', { sessionId, since: received }),
+            dispose: () => {
+                ready = false;
+                if (streamId !== undefined) {
+                    this.pendingRequests.delete(streamId);
+                }
+                abandon?.();
+            }
+        };
+
+        return { terminal, start, end };
+    }
+
+    /**
+     * Run a command with its output streamed back as it is produced
+     */
+    async executeCommandStreaming(command: string, cwd?: string, options: CommandOptions = {}): Promise<StreamingCommandResult> {
+        if (!this.transport || !this.connected) {
+            throw new Error('Not connected to AIX machine');
+        }
+
+        const callbacks = {
+            onData: [] as ((data: string) => void)[],
+            onError: [] as ((data: string) => void)[],
+            onExit: [] as ((code: number | null, signal?: string) => void)[]
+        };
+
+        // Input and signals wait until the server says which process is ours
+        let processId: number | null = null;
+        let startedCalls: (() => void)[] = [];
+        let finished = false;
+
+        const whenStarted = (call: () => void) => {
+            if (finished) {
+                return;
+            }
+            if (processId !== null) {
+                call();
+            } else {
+                startedCalls.push(call);
+            }
+        };
+
+        const finish = (code: number | null, signal?: string) => {
+            if (!finished) {
+                finished = true;
+                startedCalls = [];
+                callbacks.onExit.forEach(cb => cb(code, signal));
+            }
+        };
+
+        const notify = (method: string, params: any) => {
+            if (this.transport && this.connected) {
+                this.transport.send({ jsonrpc: '2.0', method, params: { processId, ...params } });
+            }
+        };
+
+        const id = ++this.requestId;
         const streamHandler = (response: RPCResponse) => {
+            if (response.error) {
+                // The command could not start, or went with the connection
+                callbacks.onError.forEach(cb => cb(`${response.error!.message}\n`));
+                finish(-1);
+                return;
+            }
             if (response.result) {
                 const { type, data, exitCode, signal } = response.result;
                 switch (type) {
                     case 'ready':
-                        ready = true;
-                        console.log(`Terminal session ${id} ready, PID: ${data || 'unknown'}`);
+                        processId = response.result.processId;
+                        startedCalls.forEach(call => call());
+                        startedCalls = [];
                         break;
-                    case 'data':
+                    case 'stdout':
                         callbacks.onData.forEach(cb => cb(data));
                         break;
+                    case 'stderr':
+                        callbacks.onError.forEach(cb => cb(data));
+                        break;
                     case 'exit':
-                        callbacks.onExit.forEach(cb => cb(exitCode, signal));
+                        finish(exitCode, signal);
                         break;
                 }
             }
         };
 
-        // Store stream handler
-        this.pendingRequests.set(id, { 
-            resolve: () => {}, 
+        this.pendingRequests.set(id, {
+            resolve: () => {},
             reject: () => {},
-            streamHandler 
+            streamHandler
+        });
+        this.queueMessage({
+            jsonrpc: '2.0',
+            method: 'process.spawn',
+            params: { command, cwd: cwd || this.getDefaultPath(), env: options.env, shell: options.shell },
+            id
         });
-
-        // Send terminal creation request
-        this.wsClient.send(JSON.stringify(message));
 
         return {
             onData: (callback: (data: string) => void) => {
                 callbacks.onData.push(callback);
             },
-            onExit: (callback: (exitCode: number, signal?: number) => void) => {
-                callbacks.onExit.push(callback);
-            },
-            write: (data: string) => {
-                const inputMessage: RPCMessage = {
-                    jsonrpc: '2.0',
-                    method: 'terminal.input',
-                    params: { sessionId: id, data },
-                    id: `${id}_input`
-                };
-                this.wsClient!.send(JSON.stringify(inputMessage));
-            },
-            resize: (cols: number, rows: number) => {
-                const resizeMessage: RPCMessage = {
-                    jsonrpc: '2.0',
-                    method: 'terminal.resize',
-                    params: { sessionId: id, cols, rows },
-                    id: `${id}_resize`
-                };
-                this.wsClient!.send(JSON.stringify(resizeMessage));
+            onError: (callback: (data: string) => void) => {
+                callbacks.onError.push(callback);
             },
-            kill: (signal: string = 'SIGTERM') => {
-                const killMessage: RPCMessage = {
-                    jsonrpc: '2.0',
-                    method: 'terminal.kill',
-                    params: { sessionId: id, signal },
-                    id: `${id}_kill`
-                };
-                this.wsClient!.send(JSON.stringify(killMessage));
+            onExit: (callback: (code: number | null, signal?: string) => void) => {
+                callbacks.onExit.push(callback);
             },
-            isReady: () => ready
+            write: (data: string) => whenStarted(() => notify('process.write', { data })),
+            end: () => whenStarted(() => notify('process.write', { end: true })),
+            kill: (signal: string = 'SIGTERM') => whenStarted(() => notify('process.kill', { signal }))
         };
     }
 
+    // Public API methods
+    async readDirectory(path: string, token?: vscode.CancellationToken): Promise<any[]> {
+        const cached = this.statCache.getListing(path);
+        if (cached) {
+            return cached;
+        }
+
+        // Fetch every entry's metadata with the listing; the stats that
+        // usually follow are then answered from the cache
+        const entries: any[] = await this.sendRequest('fs.readDir', { path, withStats: true }, token);
+        this.statCache.setListing(path, entries);
+        return entries;
+    }
+
+    async readFile(path: string, token?: vscode.CancellationToken): Promise<Uint8Array> {
+        return (await this.readFileWithVersion(path, token)).content;
+    }
+
     /**
-     * Execute a command with streaming output for terminal use (legacy support)
+     * Read a file along with the version that was read, for use as the
+     * precondition of a later write
      */
-    async executeCommandStreaming(command: string, cwd?: string): Promise<StreamingCommandResult> {
-        // For backward compatibility, we'll create a terminal session and run the command
-        const terminal = await this.createTerminalSession(cwd);
-        
-        const callbacks = {
-            onData: [] as ((data: string) => void)[],
-            onError: [] as ((data: string) => void)[],
-            onExit: [] as ((code: number) => void)[]
+    async readFileWithVersion(path: string, token?: vscode.CancellationToken): Promise<{ content: Uint8Array; version: FileVersion }> {
+        // Stat first: if the file changes while we read, the version is stale
+        // and the next write conflicts rather than silently overwriting
+        const stat = await this.getStat(path, { fresh: true, token });
+        let content: Uint8Array;
+        if (stat.size > LARGE_FILE_THRESHOLD) {
+            content = await this.withTransferProgress(`Downloading ${path.split('/').pop()}`,
+                (options) => this.readFileChunked(path, options), token);
+        } else {
+            content = Buffer.from(await this.sendRequest('fs.readFile', { path }, token), 'base64');
+        }
+
+        return {
+            content,
+            version: { mtime: statMtime(stat), size: stat.size, hash: hashContent(content) }
         };
+    }
 
-        terminal.onData((data) => {
-            callbacks.onData.forEach(cb => cb(data));
+    /**
+     * Replace a file's content. With a precondition the write fails with a
+     * FileConflictError if the file no longer matches it.
+     */
+    async writeFile(path: string, content: Uint8Array, options: WriteOptions = {}): Promise<FileVersion> {
+        const written: { mtime: number; size: number } = await this.modify([path], () => {
+            if (content.byteLength > LARGE_FILE_THRESHOLD) {
+                return this.withTransferProgress(`Uploading ${path.split('/').pop()}`,
+                    (transferOptions) => this.writeFileChunked(path, content, { ...transferOptions, ...options }));
+            }
+            return this.sendRequest('fs.writeFile', { path, content: toBase64(content), ...options });
         });
 
-        terminal.onExit((exitCode) => {
-            callbacks.onExit.forEach(cb => cb(exitCode));
+        return { mtime: written.mtime, size: written.size, hash: hashContent(content) };
+    }
+
+    async createDirectory(path: string): Promise<boolean> {
+        return this.modify([path], () => this.sendRequest('fs.mkdir', { path }));
+    }
+
+    async delete(path: string, options: { recursive: boolean }): Promise<boolean> {
+        return this.modify([path], () => this.sendRequest('fs.delete', { path, recursive: options.recursive }));
+    }
+
+    async rename(oldPath: string, newPath: string, options: { overwrite: boolean }): Promise<boolean> {
+        return this.modify([oldPath, newPath],
+            () => this.sendRequest('fs.rename', { oldPath, newPath, overwrite: options.overwrite }));
+    }
+
+    async copy(source: string, destination: string, options: { overwrite: boolean }): Promise<boolean> {
+        return this.modify([destination],
+            () => this.sendRequest('fs.copy', { source, destination, overwrite: options.overwrite }));
+    }
+
+    /**
+     * Run an operation that changes the given paths, then drop what we had
+     * cached about them - whether or not it succeeded
+     */
+    private async modify<T>(paths: string[], operation: () => Promise<T>): Promise<T> {
+        try {
+            return await operation();
+        } finally {
+            paths.forEach(path => this.statCache.invalidate(path));
+        }
+    }
+
+    /**
+     * Read part of a file without downloading the rest of it, e.g. the head or
+     * tail of a huge log
+     */
+    async readFileRange(path: string, start: number, length: number, options: TransferOptions = {}): Promise<Uint8Array> {
+        return this.readFileChunked(path, { ...options, start, length });
+    }
+
+    async readFileChunked(path: string, options: TransferOptions & { start?: number; length?: number } = {}): Promise<Uint8Array> {
+        const { handle, size } = await this.sendRequest('fs.open', { path, mode: 'read' }, options.token);
+
+        try {
+            const start = Math.min(Math.max(options.start ?? 0, 0), size);
+            const end = options.length !== undefined ? Math.min(size, start + options.length) : size;
+            const content = Buffer.alloc(end - start);
+            let offset = 0;
+
+            while (start + offset < end) {
+                if (options.token?.isCancellationRequested) {
+                    throw new vscode.CancellationError();
+                }
+
+                const length = Math.min(CHUNK_SIZE, end - start - offset);
+                const chunk = await this.sendRequest('fs.read', { handle, position: start + offset, length }, options.token);
+                if (chunk.bytesRead === 0) {
+                    // The file shrank while we were reading it
+                    break;
+                }
+                Buffer.from(chunk.data, 'base64').copy(content, offset);
+                offset += chunk.bytesRead;
+                options.onProgress?.(offset, end - start);
+            }
+
+            return content.subarray(0, offset);
+        } finally {
+            await this.sendRequest('fs.close', { handle }).catch(() => undefined);
+        }
+    }
+
+    async writeFileChunked(path: string, content: Uint8Array,
+                           options: TransferOptions & WriteOptions = {}): Promise<{ mtime: number; size: number }> {
+        // The server writes to a temporary file that only replaces the target on close
+        const { handle } = await this.sendRequest('fs.open', {
+            path,
+            mode: 'write',
+            create: options.create,
+            overwrite: options.overwrite,
+            precondition: options.precondition
         });
+        let committed = false;
 
-        // Execute the command
-        setTimeout(() => {
-            terminal.write(command + '\n');
-        }, 100);
+        try {
+            for (let offset = 0; offset < content.byteLength; offset += CHUNK_SIZE) {
+                if (options.token?.isCancellationRequested) {
+                    throw new vscode.CancellationError();
+                }
 
-        return {
-            onData: (callback: (data: string) => void) => {
-                callbacks.onData.push(callback);
-            },
-            onError: (callback: (data: string) => void) => {
-                callbacks.onError.push(callback);
-            },
-            onExit: (callback: (code: number) => void) => {
-                callbacks.onExit.push(callback);
-            },
-            write: (data: string) => {
-                terminal.write(data);
-            },
-            kill: (signal: string = 'SIGTERM') => {
-                terminal.kill(signal);
+                const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+                await this.sendRequest('fs.write', { handle, data: toBase64(chunk) }, options.token);
+                options.onProgress?.(offset + chunk.byteLength, content.byteLength);
             }
-        };
+
+            // The server may still refuse the write here if the file changed meanwhile
+            committed = true;
+            return await this.sendRequest('fs.close', { handle });
+        } finally {
+            if (!committed) {
+                await this.sendRequest('fs.close', { handle, abort: true }).catch(() => undefined);
+            }
+        }
     }
 
-    // Public API methods
-    async readDirectory(path: string): Promise<any[]> {
-        return this.sendRequest('fs.readDir', { path });
+    private async withTransferProgress<T>(title: string, task: (options: TransferOptions) => Promise<T>,
+                                          callerToken?: vscode.CancellationToken): Promise<T> {
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title,
+            cancellable: true
+        }, async (progress, progressToken) => {
+            // Stop when either the user or our caller cancels
+            const source = new vscode.CancellationTokenSource();
+            const subscriptions = [progressToken, callerToken].map(token => token?.onCancellationRequested(() => source.cancel()));
+            if (progressToken.isCancellationRequested || callerToken?.isCancellationRequested) {
+                source.cancel();
+            }
+
+            let reported = 0;
+            try {
+                return await task({
+                    token: source.token,
+                    onProgress: (transferred, total) => {
+                        const percent = total > 0 ? (transferred / total) * 100 : 100;
+                        progress.report({
+                            increment: percent - reported,
+                            message: `${formatBytes(transferred)} of ${formatBytes(total)}`
+                        });
+                        reported = percent;
+                    }
+                });
+            } finally {
+                subscriptions.forEach(subscription => subscription?.dispose());
+                source.dispose();
+            }
+        });
     }
 
-    async readFile(path: string): Promise<string> {
-        return this.sendRequest('fs.readFile', { path });
+    async getStat(path: string, options: { fresh?: boolean; token?: vscode.CancellationToken } = {}): Promise<any> {
+        const cached = options.fresh ? undefined : this.statCache.getStat(path);
+        if (cached) {
+            return cached;
+        }
+
+        const stat = await this.sendRequest('fs.stat', { path }, options.token);
+        this.statCache.setStat(path, stat);
+        return stat;
     }
 
-    async writeFile(path: string, content: string): Promise<boolean> {
-        return this.sendRequest('fs.writeFile', { path, content });
+    /**
+     * Forget cached stats and listings, e.g. for an explicit refresh
+     */
+    clearStatCache(): void {
+        this.statCache.clear();
     }
 
-    async getStat(path: string): Promise<any> {
-        return this.sendRequest('fs.stat', { path });
+    /**
+     * Stat a symlink itself rather than what it points at; includes the
+     * link's target
+     */
+    async lstat(path: string): Promise<any> {
+        return this.sendRequest('fs.lstat', { path });
     }
 
-    async executeCommand(command: string, cwd?: string): Promise<any> {
-        return this.sendRequest('terminal.exec', { command, cwd });
+    async readlink(path: string): Promise<string> {
+        return this.sendRequest('fs.readlink', { path });
+    }
+
+    /**
+     * Subscribe to changes under a path. The server pushes them as they happen,
+     * using fs.watch where the platform supports it and polling otherwise.
+     */
+    async watch(path: string, options: { recursive: boolean; excludes: readonly string[] }, onChange: (changes: FileChange[]) => void): Promise<vscode.Disposable> {
+        if (!this.transport || !this.connected) {
+            throw new Error('Not connected to AIX machine');
+        }
+
+        const subscription: WatchSubscription = { path, options, onChange, requestId: null, watchId: null };
+        await this.subscribeWatch(subscription);
+        // Kept until disposed so the watch survives reconnects
+        this.watchSubscriptions.add(subscription);
+
+        return new vscode.Disposable(() => {
+            this.watchSubscriptions.delete(subscription);
+            if (subscription.requestId !== null) {
+                this.pendingRequests.delete(subscription.requestId);
+            }
+            if (subscription.watchId && this.connected) {
+                this.sendRequest('fs.unwatch', { watchId: subscription.watchId }).catch(() => undefined);
+            }
+        });
+    }
+
+    private subscribeWatch(subscription: WatchSubscription): Promise<void> {
+        const id = ++this.requestId;
+        const message: RPCMessage = {
+            jsonrpc: '2.0',
+            method: 'fs.watch',
+            params: { path: subscription.path, recursive: subscription.options.recursive, excludes: subscription.options.excludes },
+            id
+        };
+        subscription.requestId = id;
+        subscription.watchId = null;
+        const timeoutMs = METHOD_TIMEOUTS['fs.watch'];
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.abandonRequest(id, new Error(`Request timeout: fs.watch took longer than ${timeoutMs / 1000}s`));
+            }, timeoutMs);
+            // Changes keep arriving under the id of the watch request
+            this.pendingRequests.set(id, {
+                resolve: () => {},
+                reject: (error: Error) => {
+                    clearTimeout(timer);
+                    reject(error);
+                },
+                streamHandler: (response: RPCResponse) => {
+                    if (response.error) {
+                        clearTimeout(timer);
+                        reject(this.createError(response.error));
+                        return;
+                    }
+                    const result = response.result;
+                    if (result.type === 'ready') {
+                        clearTimeout(timer);
+                        subscription.watchId = result.watchId;
+                        resolve();
+                    } else if (result.type === 'change') {
+                        for (const change of result.changes as FileChange[]) {
+                            this.statCache.invalidate(change.path);
+                        }
+                        subscription.onChange(result.changes);
+                    }
+                }
+            });
+
+            this.transport!.send(message);
+        });
+    }
+
+    async executeCommand(command: string, cwd?: string, token?: vscode.CancellationToken): Promise<any> {
+        return this.sendRequest('terminal.exec', { command, cwd }, token);
     }
 
     async getSystemInfo(): Promise<any> {
@@ -781,18 +1843,18 @@ export class AIXRemoteManager {
 
     async disconnect(): Promise<void> {
         this.connected = false;
-        
-        if (this.wsClient) {
-            this.wsClient.close();
-            this.wsClient = null;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
         }
+        // Change state first so the closing connection is not taken for a drop
+        this.setState('disconnected');
+        this.teardownConnection();
         
-        if (this.sshClient) {
-            this.sshClient.end();
-            this.sshClient = null;
-        }
-        
-        this.pendingRequests.clear();
+        this.failPendingRequests(new Error('Disconnected from AIX machine'), false);
+        this.watchSubscriptions.clear();
+        this.authToken = null;
+        this.password = undefined;
     }
 
     isConnected(): boolean {
@@ -814,4 +1876,49 @@ export class AIXRemoteManager {
     supportsFullTerminal(): boolean {
         return this.serverSupportsPTY;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Modification time in whole milliseconds, as the server checks write
+ * preconditions. Servers before `mtime` only sent the (rounded) Date.
+ */
+export function statMtime(stat: { mtime?: number; modified: string }): number {
+    return stat.mtime ?? new Date(stat.modified).getTime();
+}
+
+function toBase64(content: Uint8Array): string {
+    return Buffer.from(content.buffer, content.byteOffset, content.byteLength).toString('base64');
+}
+
+/**
+ * One hash over the server's files, names included
+ */
+function hashServerFiles(paths: { dist: string; packageJson: string }): string {
+    const hash = crypto.createHash('sha256');
+    const add = (file: string, name: string) => {
+        if (fs.statSync(file).isDirectory()) {
+            for (const entry of fs.readdirSync(file).sort()) {
+                add(path.join(file, entry), `${name}/${entry}`);
+            }
+        } else {
+            hash.update(`${name}\0`).update(fs.readFileSync(file)).update('\0');
+        }
+    };
+    add(paths.dist, 'dist');
+    add(paths.packageJson, 'package.json');
+    return hash.digest('hex');
+}
+
+function hashContent(content: Uint8Array): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,21 @@
+/**
+ * A write was refused because the file changed on the AIX host after the
+ * editor last read it
+ */
+export class FileConflictError extends Error {
+    constructor(public readonly path: string, public readonly current: { mtime: number; size: number }) {
+        super(`${path} has been modified on the AIX host`);
+        this.name = 'FileConflictError';
+    }
+}
+
+/**
+ * A system call failed on the AIX host. `code` is the errno name, e.g.
+ * ENOENT or EACCES.
+ */
+export class RemoteFileSystemError extends Error {
+    constructor(message: string, public readonly code: string, public readonly path?: string) {
+        super(message);
+        this.name = 'RemoteFileSystemError';
+    }
+}
@@ -1,14 +1,24 @@
 import * as vscode from 'vscode';
-import { AIXRemoteManager } from './aixRemoteManager';
+import { AIXRemoteManager, ConnectionState } from './aixRemoteManager';
 import { AIXFileSystemProvider } from './fileSystemProvider';
-import { AIXRemoteExplorer } from './remoteExplorer';
-import { AIXTerminalManager } from './terminalProvider';
+import { AIXRemoteExplorer, FileItem } from './remoteExplorer';
+import { AIXTerminalManager, AIXTerminalProfileProvider } from './terminalProvider';
+import { AIXTaskProvider } from './taskProvider';
+import { AIXTerminalLinkProvider } from './terminalLinkProvider';
 
 let aixRemoteManager: AIXRemoteManager;
 let fileSystemProvider: AIXFileSystemProvider;
 let remoteExplorer: AIXRemoteExplorer;
+let explorerView: vscode.TreeView<FileItem>;
 let terminalManager: AIXTerminalManager;
 
+// Set while the user disconnects, so the end of a reconnect attempt is not
+// reported as a lost connection
+let disconnecting = false;
+
+// How much of a large file "View Head/Tail" downloads
+const PREVIEW_BYTES = 1024 * 1024;
+
 export function activate(context: vscode.ExtensionContext) {
     console.log('AIX Remote Development extension is now active!');
 
@@ -25,9 +35,48 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
-    // Register tree data provider
+    // Offer AIX terminals in the terminal profile dropdown
+    context.subscriptions.push(
+        vscode.window.registerTerminalProfileProvider(AIXTerminalProfileProvider.id, new AIXTerminalProfileProvider(terminalManager))
+    );
+
+    // Open paths printed in AIX terminals from the host
+    context.subscriptions.push(
+        vscode.window.registerTerminalLinkProvider(new AIXTerminalLinkProvider(aixRemoteManager, terminalManager))
+    );
+
+    // Run aixremote tasks on the host; compiler and linker problems found in
+    // their output are reported against the remote files
+    const taskDiagnostics = vscode.languages.createDiagnosticCollection('aixremote');
+    const taskProvider = new AIXTaskProvider(aixRemoteManager, taskDiagnostics);
+    context.subscriptions.push(
+        taskDiagnostics,
+        vscode.tasks.registerTaskProvider(AIXTaskProvider.type, taskProvider),
+        vscode.workspace.registerTextDocumentContentProvider(AIXTaskProvider.problemsScheme, taskProvider)
+    );
+
+    // Register tree data provider; the view is kept for revealing items
+    explorerView = vscode.window.createTreeView('aixRemoteExplorer', { treeDataProvider: remoteExplorer });
     context.subscriptions.push(
-        vscode.window.registerTreeDataProvider('aixRemoteExplorer', remoteExplorer)
+        explorerView,
+        remoteExplorer,
+        explorerView.onDidCollapseElement(event => remoteExplorer.collapse(event.element))
+    );
+
+    // Keep the explorer in sync with changes reported by file watchers
+    context.subscriptions.push(
+        fileSystemProvider.onDidChangeFile(events => {
+            remoteExplorer.refreshPaths(events.map(event => event.uri.path));
+        })
+    );
+
+    // Reflect the connection in the UI, including drops and reconnects
+    let previousState: ConnectionState = aixRemoteManager.getConnectionState();
+    context.subscriptions.push(
+        aixRemoteManager.onDidChangeConnectionState(state => {
+            handleConnectionStateChange(previousState, state);
+            previousState = state;
+        })
     );
 
     // Register commands
@@ -57,6 +106,12 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aixRemote.reattachTerminal', async () => {
+            await reattachTerminal();
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('aixRemoteExplorer.refresh', () => {
             remoteExplorer.refresh();
@@ -70,10 +125,66 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Context menu commands receive the tree item; other callers pass a Uri
+
     // Command to open terminal in specific directory (for context menu)
     context.subscriptions.push(
-        vscode.commands.registerCommand('aixRemoteExplorer.openTerminalHere', async (resource: vscode.Uri) => {
-            await openTerminalInDirectory(resource);
+        vscode.commands.registerCommand('aixRemoteExplorer.openTerminalHere', async (target: FileItem | vscode.Uri) => {
+            const resource = toResourceUri(target);
+            if (resource) {
+                await openTerminalInDirectory(resource);
+            }
+        })
+    );
+
+    // The other way round: show where the active terminal's shell is
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aixRemote.revealTerminalCwd', async () => {
+            await revealTerminalDirectory();
+        })
+    );
+
+    // Commands to peek at huge files without downloading all of them
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aixRemoteExplorer.viewHead', async (target: FileItem | vscode.Uri) => {
+            const resource = toResourceUri(target);
+            if (resource) {
+                await viewFilePart(resource, 'head');
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aixRemoteExplorer.viewTail', async (target: FileItem | vscode.Uri) => {
+            const resource = toResourceUri(target);
+            if (resource) {
+                await viewFilePart(resource, 'tail');
+            }
+        })
+    );
+
+    // File management commands for the explorer view
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aixRemoteExplorer.newFile', async (target?: FileItem | vscode.Uri) => {
+            await createEntry(target, 'file');
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aixRemoteExplorer.newFolder', async (target?: FileItem | vscode.Uri) => {
+            await createEntry(target, 'folder');
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aixRemoteExplorer.rename', async (target: FileItem | vscode.Uri) => {
+            await renameEntry(target);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aixRemoteExplorer.delete', async (target: FileItem | vscode.Uri) => {
+            await deleteEntry(target);
         })
     );
 
@@ -124,12 +235,6 @@ async function connectToAIX() {
             progress.report({ increment: 100, message: "Connected!" });
         });
 
-        // Set context for UI updates
-        vscode.commands.executeCommand('setContext', 'aixRemote.connected', true);
-        
-        // Refresh explorer
-        remoteExplorer.refresh();
-
         vscode.window.showInformationMessage(`Connected to AIX machine: ${aixRemoteManager.getHost()}`);
 
     } catch (error) {
@@ -137,11 +242,46 @@ async function connectToAIX() {
     }
 }
 
+function handleConnectionStateChange(previous: ConnectionState, state: ConnectionState) {
+    vscode.commands.executeCommand('setContext', 'aixRemote.connected', state === 'connected');
+
+    if (state === 'reconnecting') {
+        // Show progress in the status bar until the connection is back or lost
+        vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: `Reconnecting to ${aixRemoteManager.getHost()}...`
+        }, () => new Promise<void>(resolve => {
+            const subscription = aixRemoteManager.onDidChangeConnectionState(next => {
+                if (next !== 'reconnecting') {
+                    subscription.dispose();
+                    resolve();
+                }
+            });
+        }));
+    } else if (previous === 'reconnecting' && state === 'connected') {
+        vscode.window.setStatusBarMessage(`Reconnected to AIX machine: ${aixRemoteManager.getHost()}`, 5000);
+    } else if (previous === 'reconnecting' && state === 'disconnected' && !disconnecting) {
+        vscode.window.showErrorMessage(`Lost connection to AIX machine: ${aixRemoteManager.getHost()}`, 'Reconnect').then(async choice => {
+            if (choice !== 'Reconnect') {
+                return;
+            }
+            try {
+                await aixRemoteManager.reconnect();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to reconnect: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        });
+    }
+}
+
 async function disconnectFromAIX() {
     try {
-        await aixRemoteManager.disconnect();
-        vscode.commands.executeCommand('setContext', 'aixRemote.connected', false);
-        remoteExplorer.refresh();
+        disconnecting = true;
+        try {
+            await aixRemoteManager.disconnect();
+        } finally {
+            disconnecting = false;
+        }
         
         // Note: Existing terminals will continue to work until closed
         // but new terminals cannot be created
@@ -186,6 +326,37 @@ async function createNewTerminal() {
     }
 }
 
+async function reattachTerminal() {
+    if (!aixRemoteManager.isConnected()) {
+        vscode.window.showWarningMessage('Not connected to AIX machine');
+        return;
+    }
+
+    try {
+        const sessions = (await aixRemoteManager.listTerminalSessions()).filter(session => !session.attached);
+        if (sessions.length === 0) {
+            vscode.window.showInformationMessage('No detached terminal sessions on this host');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(sessions.map(session => ({
+            label: session.name || `PID ${session.pid}`,
+            description: session.cwd,
+            detail: `${session.shell}, started ${new Date(session.createdAt).toLocaleString()}` +
+                (session.detachedAt ? `, detached ${new Date(session.detachedAt).toLocaleTimeString()}` : ''),
+            session
+        })), { placeHolder: 'Select a terminal session to reattach' });
+        if (!picked) {
+            return;
+        }
+
+        const terminal = terminalManager.attachTerminal(picked.session.sessionId, picked.session.name);
+        terminal.show();
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to reattach terminal: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 async function openTerminalInDirectory(resource: vscode.Uri) {
     if (!aixRemoteManager.isConnected()) {
         vscode.window.showWarningMessage('Not connected to AIX machine');
@@ -220,6 +391,209 @@ async function openTerminalInDirectory(resource: vscode.Uri) {
     }
 }
 
+async function revealTerminalDirectory() {
+    const terminal = vscode.window.activeTerminal;
+    const provider = terminal && terminalManager.getProvider(terminal);
+    if (!provider) {
+        vscode.window.showWarningMessage('The active terminal is not an AIX terminal');
+        return;
+    }
+
+    // Follows cd only where the shell has shell integration
+    const directoryPath = provider.getCurrentDirectory();
+    try {
+        const item = await remoteExplorer.findDirectoryItem(directoryPath);
+        if (item) {
+            await explorerView.reveal(item, { select: true, focus: true, expand: true });
+        } else if (directoryPath === aixRemoteManager.getDefaultPath()) {
+            await vscode.commands.executeCommand('aixRemoteExplorer.focus');
+        } else {
+            vscode.window.showInformationMessage(`${directoryPath} is not under ${aixRemoteManager.getDefaultPath()}, the root of the AIX Remote explorer`);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to reveal ${directoryPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+function toResourceUri(target?: FileItem | vscode.Uri): vscode.Uri | undefined {
+    return target instanceof vscode.Uri ? target : target?.resourceUri;
+}
+
+function getParentPath(path: string): string {
+    return path.substring(0, path.lastIndexOf('/')) || '/';
+}
+
+function validateEntryName(name: string): string | undefined {
+    if (!name.trim()) {
+        return 'A name is required';
+    }
+    if (name.includes('/')) {
+        return 'The name cannot contain "/"';
+    }
+    return undefined;
+}
+
+async function pathExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+async function createEntry(target: FileItem | vscode.Uri | undefined, kind: 'file' | 'folder') {
+    if (!aixRemoteManager.isConnected()) {
+        vscode.window.showWarningMessage('Not connected to AIX machine');
+        return;
+    }
+
+    try {
+        // New entries go inside a directory, or next to a file
+        let directoryPath = aixRemoteManager.getDefaultPath();
+        const resource = toResourceUri(target);
+        if (target instanceof FileItem) {
+            directoryPath = target.fileType === 'directory' ? resource!.path : getParentPath(resource!.path);
+        } else if (resource) {
+            const stat = await aixRemoteManager.getStat(resource.path);
+            directoryPath = stat.isDirectory ? resource.path : getParentPath(resource.path);
+        }
+
+        const name = await vscode.window.showInputBox({
+            prompt: `${kind === 'file' ? 'New file' : 'New folder'} in ${directoryPath}`,
+            validateInput: validateEntryName,
+            ignoreFocusOut: true
+        });
+
+        if (!name) {
+            return;
+        }
+
+        const uri = vscode.Uri.parse(`aixremote:${directoryPath.replace(/\/$/, '')}/${name}`);
+        if (await pathExists(uri)) {
+            vscode.window.showErrorMessage(`${uri.path} already exists`);
+            return;
+        }
+
+        if (kind === 'folder') {
+            await vscode.workspace.fs.createDirectory(uri);
+        } else {
+            await vscode.workspace.fs.writeFile(uri, new Uint8Array());
+            await vscode.window.showTextDocument(uri);
+        }
+        remoteExplorer.refreshPaths([uri.path]);
+
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to create ${kind}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function renameEntry(target: FileItem | vscode.Uri) {
+    const resource = toResourceUri(target);
+    if (!resource) {
+        return;
+    }
+
+    if (!aixRemoteManager.isConnected()) {
+        vscode.window.showWarningMessage('Not connected to AIX machine');
+        return;
+    }
+
+    const oldName = resource.path.split('/').pop() || '';
+    const extensionIndex = oldName.lastIndexOf('.');
+    const newName = await vscode.window.showInputBox({
+        prompt: `Rename ${resource.path}`,
+        value: oldName,
+        // Preselect the name without its extension, as the built-in explorer does
+        valueSelection: [0, extensionIndex > 0 ? extensionIndex : oldName.length],
+        validateInput: validateEntryName,
+        ignoreFocusOut: true
+    });
+
+    if (!newName || newName === oldName) {
+        return;
+    }
+
+    try {
+        const newUri = resource.with({ path: `${getParentPath(resource.path).replace(/\/$/, '')}/${newName}` });
+        await vscode.workspace.fs.rename(resource, newUri, { overwrite: false });
+        remoteExplorer.refreshPaths([resource.path, newUri.path]);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to rename: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function deleteEntry(target: FileItem | vscode.Uri) {
+    const resource = toResourceUri(target);
+    if (!resource) {
+        return;
+    }
+
+    if (!aixRemoteManager.isConnected()) {
+        vscode.window.showWarningMessage('Not connected to AIX machine');
+        return;
+    }
+
+    // Deleting a link to a directory only removes the link
+    const isDirectory = target instanceof FileItem ? target.fileType === 'directory' && target.linkTarget === undefined : false;
+    const choice = await vscode.window.showWarningMessage(
+        `Delete '${resource.path}'${isDirectory ? ' and all of its contents' : ''}? This cannot be undone.`,
+        { modal: true },
+        'Delete'
+    );
+
+    if (choice !== 'Delete') {
+        return;
+    }
+
+    try {
+        await vscode.workspace.fs.delete(resource, { recursive: true, useTrash: false });
+        remoteExplorer.refreshPaths([resource.path]);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to delete: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function viewFilePart(resource: vscode.Uri, part: 'head' | 'tail') {
+    if (!aixRemoteManager.isConnected()) {
+        vscode.window.showWarningMessage('Not connected to AIX machine');
+        return;
+    }
+
+    try {
+        const stat = await aixRemoteManager.getStat(resource.path);
+
+        // Small files are cheaper to just open
+        if (stat.size <= PREVIEW_BYTES) {
+            await vscode.window.showTextDocument(resource);
+            return;
+        }
+
+        const start = part === 'head' ? 0 : stat.size - PREVIEW_BYTES;
+        const content = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Reading ${part} of ${resource.path.split('/').pop()}...`,
+            cancellable: true
+        }, (progress, token) => aixRemoteManager.readFileRange(resource.path, start, PREVIEW_BYTES, { token }));
+
+        // Drop the partial line where the range was cut
+        let text = Buffer.from(content).toString('utf8');
+        if (part === 'head') {
+            text = text.slice(0, text.lastIndexOf('\n') + 1) || text;
+        } else {
+            text = text.slice(text.indexOf('\n') + 1);
+        }
+
+        const document = await vscode.workspace.openTextDocument({ content: text });
+        await vscode.window.showTextDocument(document, { preview: true });
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
+        vscode.window.showErrorMessage(`Failed to read ${resource.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 export function deactivate() {
     if (aixRemoteManager) {
         aixRemoteManager.disconnect();
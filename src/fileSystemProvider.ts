@@ -1,16 +1,61 @@
 import * as vscode from 'vscode';
-import { AIXRemoteManager } from './aixRemoteManager';
+import { AIXRemoteManager, FileChange, FileVersion, statMtime } from './aixRemoteManager';
+import { FileConflictError, RemoteFileSystemError } from './errors';
 
 export class AIXFileSystemProvider implements vscode.FileSystemProvider {
     private _emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
     readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._emitter.event;
+    // Version of each file as last read or written, sent with writes so that
+    // changes made on the host in the meantime are not overwritten
+    private versions: Map<string, FileVersion> = new Map();
 
-    constructor(private aixManager: AIXRemoteManager) {}
+    constructor(private aixManager: AIXRemoteManager) {
+        // Changes made while we were disconnected were never reported; have
+        // VS Code check open files again once the connection is back
+        let reconnecting = false;
+        aixManager.onDidChangeConnectionState(state => {
+            if (state === 'reconnecting') {
+                reconnecting = true;
+            } else if (state === 'connected' && reconnecting) {
+                reconnecting = false;
+                const changed = vscode.workspace.textDocuments
+                    .filter(document => document.uri.scheme === 'aixremote')
+                    .map(document => ({ type: vscode.FileChangeType.Changed, uri: document.uri }));
+                if (changed.length > 0) {
+                    this._emitter.fire(changed);
+                }
+            } else {
+                reconnecting = false;
+            }
+        });
+    }
 
     watch(uri: vscode.Uri, options: { recursive: boolean; excludes: string[]; }): vscode.Disposable {
-        // For MVP, we'll implement a simple no-op watcher
-        // In the full version, this would use file system watching
-        return new vscode.Disposable(() => {});
+        let subscription: vscode.Disposable | undefined;
+        let disposed = false;
+
+        this.aixManager.watch(uri.path, options, (changes: FileChange[]) => {
+            this._emitter.fire(changes.map(change => ({
+                type: change.type === 'created' ? vscode.FileChangeType.Created :
+                      change.type === 'deleted' ? vscode.FileChangeType.Deleted :
+                      vscode.FileChangeType.Changed,
+                uri: uri.with({ path: change.path })
+            })));
+        }).then(disposable => {
+            // VS Code may have stopped watching before the server answered
+            if (disposed) {
+                disposable.dispose();
+            } else {
+                subscription = disposable;
+            }
+        }).catch(error => {
+            console.error(`Failed to watch ${uri.path}:`, error);
+        });
+
+        return new vscode.Disposable(() => {
+            disposed = true;
+            subscription?.dispose();
+        });
     }
 
     async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
@@ -19,16 +64,16 @@ export class AIXFileSystemProvider implements vscode.FileSystemProvider {
             const stats = await this.aixManager.getStat(path);
             
             return {
-                type: stats.isFile ? vscode.FileType.File : 
-                      stats.isDirectory ? vscode.FileType.Directory : 
-                      vscode.FileType.SymbolicLink,
+                type: toFileType(stats.isFile ? 'file' : stats.isDirectory ? 'directory' : 'other', stats.isSymbolicLink),
                 ctime: new Date(stats.created).getTime(),
-                mtime: new Date(stats.modified).getTime(),
-                size: stats.size
+                mtime: statMtime(stats),
+                size: stats.size,
+                // Open files we cannot write as read-only instead of failing on save
+                permissions: stats.writable === false ? vscode.FilePermission.Readonly : undefined
             };
         } catch (error) {
             console.error(`Failed to stat ${uri.path}:`, error);
-            throw vscode.FileSystemError.FileNotFound(uri);
+            throw this.toFileSystemError(error, uri);
         }
     }
 
@@ -39,53 +84,176 @@ export class AIXFileSystemProvider implements vscode.FileSystemProvider {
             
             return entries.map(entry => [
                 entry.name,
-                entry.type === 'file' ? vscode.FileType.File :
-                entry.type === 'directory' ? vscode.FileType.Directory :
-                vscode.FileType.SymbolicLink
+                entry.type === 'symlink' ? toFileType(entry.targetType, true) : toFileType(entry.type, false)
             ]);
         } catch (error) {
             console.error(`Failed to read directory ${uri.path}:`, error);
-            throw vscode.FileSystemError.FileNotFound(uri);
+            throw this.toFileSystemError(error, uri);
         }
     }
 
     async createDirectory(uri: vscode.Uri): Promise<void> {
-        // For MVP, we'll implement this later
-        throw vscode.FileSystemError.NoPermissions(uri);
+        try {
+            await this.aixManager.createDirectory(uri.path);
+            this._emitter.fire([{ type: vscode.FileChangeType.Created, uri }]);
+        } catch (error) {
+            console.error(`Failed to create directory ${uri.path}:`, error);
+            throw this.toFileSystemError(error, uri);
+        }
     }
 
     async readFile(uri: vscode.Uri): Promise<Uint8Array> {
         try {
             const path = uri.path;
-            const content = await this.aixManager.readFile(path);
-            return Buffer.from(content, 'utf8');
+            const { content, version } = await this.aixManager.readFileWithVersion(path);
+            this.versions.set(uri.toString(), version);
+            return content;
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             console.error(`Failed to read file ${uri.path}:`, error);
-            throw vscode.FileSystemError.FileNotFound(uri);
+            throw this.toFileSystemError(error, uri);
         }
     }
 
     async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean; }): Promise<void> {
         try {
             const path = uri.path;
-            const textContent = Buffer.from(content).toString('utf8');
-            await this.aixManager.writeFile(path, textContent);
+            let version: FileVersion;
+            try {
+                version = await this.aixManager.writeFile(path, content, {
+                    ...options,
+                    precondition: this.versions.get(uri.toString())
+                });
+            } catch (error) {
+                if (!(error instanceof FileConflictError)) {
+                    throw error;
+                }
+                if (!await this.resolveConflict(uri)) {
+                    throw new vscode.FileSystemError(`${uri.path} was changed on the AIX host. Compare the changes, then save again to overwrite them.`);
+                }
+                version = await this.aixManager.writeFile(path, content, options);
+            }
+            this.versions.set(uri.toString(), version);
             
             // Notify that file has changed
             this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri }]);
         } catch (error) {
+            if (error instanceof vscode.CancellationError || error instanceof vscode.FileSystemError) {
+                throw error;
+            }
             console.error(`Failed to write file ${uri.path}:`, error);
-            throw vscode.FileSystemError.NoPermissions(uri);
+            throw this.toFileSystemError(error, uri);
         }
     }
 
     async delete(uri: vscode.Uri, options: { recursive: boolean; }): Promise<void> {
-        // For MVP, we'll implement this later
-        throw vscode.FileSystemError.NoPermissions(uri);
+        try {
+            await this.aixManager.delete(uri.path, options);
+            this.versions.delete(uri.toString());
+            this._emitter.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+        } catch (error) {
+            console.error(`Failed to delete ${uri.path}:`, error);
+            throw this.toFileSystemError(error, uri);
+        }
     }
 
     async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean; }): Promise<void> {
-        // For MVP, we'll implement this later
-        throw vscode.FileSystemError.NoPermissions(oldUri);
+        try {
+            await this.aixManager.rename(oldUri.path, newUri.path, options);
+            // A rename keeps the mtime, so what we last saw is still current
+            const version = this.versions.get(oldUri.toString());
+            this.versions.delete(oldUri.toString());
+            if (version) {
+                this.versions.set(newUri.toString(), version);
+            }
+            this._emitter.fire([
+                { type: vscode.FileChangeType.Deleted, uri: oldUri },
+                { type: vscode.FileChangeType.Created, uri: newUri }
+            ]);
+        } catch (error) {
+            console.error(`Failed to rename ${oldUri.path} to ${newUri.path}:`, error);
+            throw this.toFileSystemError(error, oldUri, newUri);
+        }
+    }
+
+    async copy(source: vscode.Uri, destination: vscode.Uri, options: { overwrite: boolean; }): Promise<void> {
+        try {
+            await this.aixManager.copy(source.path, destination.path, options);
+            this._emitter.fire([{ type: vscode.FileChangeType.Created, uri: destination }]);
+        } catch (error) {
+            console.error(`Failed to copy ${source.path} to ${destination.path}:`, error);
+            throw this.toFileSystemError(error, source, destination);
+        }
     }
-}
\ No newline at end of file
+
+    /**
+     * Ask what to do about a save that would overwrite changes made on the
+     * host. Returns true to overwrite them.
+     */
+    private async resolveConflict(uri: vscode.Uri): Promise<boolean> {
+        const name = uri.path.split('/').pop();
+        const choice = await vscode.window.showWarningMessage(
+            `'${name}' has been changed on the AIX host since you opened it.`,
+            { modal: true, detail: 'Overwrite the file with your version, or compare the two first.' },
+            'Compare',
+            'Overwrite'
+        );
+
+        if (choice === 'Overwrite') {
+            return true;
+        }
+
+        if (choice === 'Compare') {
+            // Show the host's version beside ours. Having seen it, saving
+            // again overwrites it without asking.
+            const { content, version } = await this.aixManager.readFileWithVersion(uri.path);
+            this.versions.set(uri.toString(), version);
+            const theirs = await vscode.workspace.openTextDocument({ content: new TextDecoder().decode(content) });
+            await vscode.commands.executeCommand('vscode.diff', theirs.uri, uri, `${name} (on AIX host) ↔ ${name} (yours)`);
+        }
+        return false;
+    }
+
+    /**
+     * Map a failure to the FileSystemError VS Code expects, so it can show the
+     * right message and offer e.g. to create a missing file
+     */
+    private toFileSystemError(error: unknown, uri: vscode.Uri, destination?: vscode.Uri): vscode.FileSystemError {
+        if (!(error instanceof RemoteFileSystemError)) {
+            // Not a failed system call, e.g. the connection dropped
+            return vscode.FileSystemError.Unavailable(error instanceof Error ? error.message : String(error));
+        }
+
+        switch (error.code) {
+            case 'ENOENT':
+                return vscode.FileSystemError.FileNotFound(uri);
+            case 'EEXIST':
+                // For a rename or copy it is the destination that exists
+                return vscode.FileSystemError.FileExists(destination ?? uri);
+            case 'ENOTDIR':
+                return vscode.FileSystemError.FileNotADirectory(uri);
+            case 'EISDIR':
+                return vscode.FileSystemError.FileIsADirectory(uri);
+            case 'EACCES':
+            case 'EPERM':
+            case 'EROFS':
+                return vscode.FileSystemError.NoPermissions(uri);
+            default:
+                // ENOSPC and friends have no factory of their own
+                return vscode.FileSystemError.Unavailable(error.message);
+        }
+    }
+}
+
+/**
+ * VS Code wants links reported as SymbolicLink combined with the type of
+ * their target; a broken link is SymbolicLink alone
+ */
+function toFileType(type: string, isSymbolicLink: boolean): vscode.FileType {
+    const fileType = type === 'file' ? vscode.FileType.File :
+                     type === 'directory' ? vscode.FileType.Directory :
+                     vscode.FileType.Unknown;
+    return isSymbolicLink ? fileType | vscode.FileType.SymbolicLink : fileType;
+}
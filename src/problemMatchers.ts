@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LD_FILE_PATTERN, LD_PATTERN, XLC_PATTERN } from './problemPatterns';
+
+// Pseudo-documents listing the problems of a task that name no file
+export const TASK_PROBLEMS_SCHEME = 'aixremote-task';
+
+/**
+ * A diagnostic recognised in build output. Paths are as printed by the tool;
+ * relative ones are resolved against the directory the build ran in.
+ */
+export interface MatchedProblem {
+    path?: string;
+    line: number;
+    column: number;
+    severity: vscode.DiagnosticSeverity;
+    code: string;
+    message: string;
+    source: string;
+}
+
+export function matchProblem(line: string): MatchedProblem | undefined {
+    const xlc = XLC_PATTERN.exec(line);
+    if (xlc) {
+        return {
+            path: xlc[1],
+            line: parseInt(xlc[2], 10),
+            column: xlc[3] ? parseInt(xlc[3], 10) : 1,
+            severity: xlcSeverity(xlc[5]),
+            code: xlc[4],
+            message: xlc[6],
+            source: 'xlc'
+        };
+    }
+
+    const ld = LD_PATTERN.exec(line);
+    if (ld) {
+        // Mostly ld does not say which file is to blame
+        return {
+            path: LD_FILE_PATTERN.exec(line)?.[4],
+            line: 1,
+            column: 1,
+            severity: ldSeverity(ld[1], ld[2]),
+            code: ld[1],
+            message: ld[3],
+            source: 'ld'
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * The remote file a problem refers to, as an aixremote: URI so it opens on
+ * the host. Problems without a file, like most of ld's, are reported against
+ * a document listing them for the task that printed them.
+ */
+export function problemUri(problem: MatchedProblem, cwd: string, taskName: string): vscode.Uri {
+    if (!problem.path) {
+        return taskProblemsUri(taskName);
+    }
+    return vscode.Uri.parse(`aixremote:${path.posix.resolve(cwd, problem.path)}`);
+}
+
+export function taskProblemsUri(taskName: string): vscode.Uri {
+    return vscode.Uri.from({ scheme: TASK_PROBLEMS_SCHEME, path: `/${taskName}` });
+}
+
+export function toDiagnostic(problem: MatchedProblem): vscode.Diagnostic {
+    // Both tools count lines and columns from 1
+    const position = new vscode.Position(Math.max(problem.line - 1, 0), Math.max(problem.column - 1, 0));
+    const diagnostic = new vscode.Diagnostic(new vscode.Range(position, position), problem.message, problem.severity);
+    diagnostic.code = problem.code;
+    diagnostic.source = problem.source;
+    return diagnostic;
+}
+
+// Untagged messages of the ld command itself (0706-...) are failures, like a
+// missing library; untagged binder messages (0711-...) are notes, like the
+// hint to link with -bloadmap
+function ldSeverity(code: string, tag: string | undefined): vscode.DiagnosticSeverity {
+    if (tag === 'WARNING') {
+        return vscode.DiagnosticSeverity.Warning;
+    }
+    return tag || code.startsWith('0706-') ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Information;
+}
+
+// U (unrecoverable), S (severe) and E (error) all fail the compile
+function xlcSeverity(level: string): vscode.DiagnosticSeverity {
+    switch (level) {
+        case 'W':
+            return vscode.DiagnosticSeverity.Warning;
+        case 'I':
+            return vscode.DiagnosticSeverity.Information;
+        default:
+            return vscode.DiagnosticSeverity.Error;
+    }
+}
@@ -0,0 +1,21 @@
+/**
+ * Diagnostic lines printed by the AIX build tools. XLC_PATTERN and
+ * LD_FILE_PATTERN are also contributed as the $xlc and $aix-ld problem
+ * matchers in package.json, for builds run by other task types.
+ */
+
+// IBM XL C/C++ (xlc, xlC, cc_r, ...):
+//   "src/main.c", line 12.5: 1506-045 (S) Undeclared identifier count.
+// The column is left out for some messages.
+export const XLC_PATTERN = /^"(.+)", line (\d+)(?:\.(\d+))?: (\d{4}-\d{3,4}) \(([USEWI])\) (.*)$/;
+
+// AIX ld (also reached through the compiler drivers):
+//   ld: 0711-317 ERROR: Undefined symbol: .compute
+//   ld: 0706-006 Cannot find or open library file: -l ssl
+export const LD_PATTERN = /^ld: (\d{4}-\d{3}) (?:(SEVERE ERROR|ERROR|WARNING): )?(.*)$/;
+
+// The ld messages that name a file, which is all a problem matcher can list:
+//   ld: 0706-005 Cannot find or open file: util.o
+//   ld: 0706-004 Cannot find or read export file: libfoo.exp
+// Libraries are named by their -l flag, not as a file.
+export const LD_FILE_PATTERN = /^ld: (\d{4}-\d{3}) (?:(SEVERE ERROR|ERROR|WARNING): )?(.* file: ([^\s-]\S*))$/;
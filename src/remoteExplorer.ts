@@ -5,17 +5,112 @@ export class AIXRemoteExplorer implements vscode.TreeDataProvider<FileItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<FileItem | undefined | null | void> = new vscode.EventEmitter<FileItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<FileItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    constructor(private aixManager: AIXRemoteManager) {}
+    // Directory nodes by path, so change notifications can refresh just them
+    private directoryItems: Map<string, FileItem> = new Map();
+    private directoryWatches: Map<string, vscode.Disposable> = new Map();
+    private stateSubscription: vscode.Disposable;
+
+    constructor(private aixManager: AIXRemoteManager) {
+        // Show "reconnecting" while the connection is down, and reload once
+        // it is back; directory watches are restored by the manager
+        this.stateSubscription = aixManager.onDidChangeConnectionState(state => {
+            if (state !== 'connecting') {
+                this.refresh();
+            }
+        });
+    }
 
     refresh(): void {
+        if (this.aixManager.getConnectionState() === 'disconnected') {
+            this.disposeWatches();
+        }
+        this.directoryItems.clear();
+        // A full refresh should show what is on the host now
+        this.aixManager.clearStatCache();
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Refresh the directories containing the given paths
+     */
+    refreshPaths(paths: string[]): void {
+        const directories = new Set(paths.map(path => path.substring(0, path.lastIndexOf('/')) || '/'));
+        for (const directory of directories) {
+            if (directory === this.aixManager.getDefaultPath()) {
+                this._onDidChangeTreeData.fire();
+                return;
+            }
+            const item = this.directoryItems.get(directory);
+            if (item) {
+                this._onDidChangeTreeData.fire(item);
+            }
+        }
+    }
+
+    /**
+     * Stop watching a collapsed directory and the ones below it. Its listing
+     * is reloaded, and watched again, when it is next expanded.
+     */
+    collapse(element: FileItem): void {
+        this.unwatchDirectory(element.resourceUri.path);
+        this._onDidChangeTreeData.fire(element);
+    }
+
+    dispose(): void {
+        this.stateSubscription.dispose();
+        this.disposeWatches();
+    }
+
     getTreeItem(element: FileItem): vscode.TreeItem {
         return element;
     }
 
+    // Only directories are known by path, which is all reveal needs
+    getParent(element: FileItem): FileItem | undefined {
+        const path = element.resourceUri.path;
+        const parent = path.substring(0, path.lastIndexOf('/')) || '/';
+        return parent === this.aixManager.getDefaultPath() ? undefined : this.directoryItems.get(parent);
+    }
+
+    /**
+     * The tree item of a directory below the explorer's root, loading the
+     * directories on the way to it. Undefined for the root itself and for
+     * anything outside it.
+     */
+    async findDirectoryItem(path: string): Promise<FileItem | undefined> {
+        const root = this.aixManager.getDefaultPath();
+        const prefix = root === '/' ? '/' : `${root}/`;
+        if (!path.startsWith(prefix)) {
+            return undefined;
+        }
+
+        let item: FileItem | undefined;
+        let current = root;
+        for (const name of path.slice(prefix.length).split('/').filter(name => name)) {
+            current = current === '/' ? `/${name}` : `${current}/${name}`;
+            let next = this.directoryItems.get(current);
+            if (!next) {
+                await this.getChildren(item);
+                next = this.directoryItems.get(current);
+            }
+            if (!next) {
+                return undefined;
+            }
+            item = next;
+        }
+        return item;
+    }
+
     async getChildren(element?: FileItem): Promise<FileItem[]> {
+        if (!element && this.aixManager.getConnectionState() === 'reconnecting') {
+            return [new FileItem(
+                'Reconnecting to AIX machine...',
+                vscode.TreeItemCollapsibleState.None,
+                vscode.Uri.parse(`aixremote:${this.aixManager.getDefaultPath()}`),
+                'reconnecting'
+            )];
+        }
+
         if (!this.aixManager.isConnected()) {
             return [];
         }
@@ -23,7 +118,12 @@ export class AIXRemoteExplorer implements vscode.TreeDataProvider<FileItem> {
         const path = element ? element.resourceUri!.path : this.aixManager.getDefaultPath();
 
         try {
-            const entries = await this.aixManager.readDirectory(path);
+            const entries = (await this.aixManager.readDirectory(path)).map(entry =>
+                // Links that resolve are shown as what they point at, so
+                // linked directories can be expanded
+                entry.type === 'symlink' && (entry.targetType === 'directory' || entry.targetType === 'file')
+                    ? { ...entry, type: entry.targetType }
+                    : entry);
             
             // Sort entries: directories first, then files, alphabetically within each group
             entries.sort((a, b) => {
@@ -32,15 +132,31 @@ export class AIXRemoteExplorer implements vscode.TreeDataProvider<FileItem> {
                 return a.name.localeCompare(b.name);
             });
             
+            // Keep the listing current while it is shown
+            this.watchDirectory(path);
+            this.forgetRemovedDirectories(path, entries.filter(entry => entry.type === 'directory').map(entry => entry.path));
+            
             return entries.map(entry => {
+                // Keep handing out the same item for a directory, so it can be
+                // revealed from findDirectoryItem
+                const known = this.directoryItems.get(entry.path);
+                if (entry.type === 'directory' && known && known.linkTarget === entry.target) {
+                    return known;
+                }
+
                 const uri = vscode.Uri.parse(`aixremote:${entry.path}`);
                 
-                return new FileItem(
+                const item = new FileItem(
                     entry.name,
                     entry.type === 'directory' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
                     uri,
-                    entry.type
+                    entry.type,
+                    entry.target
                 );
+                if (entry.type === 'directory') {
+                    this.directoryItems.set(entry.path, item);
+                }
+                return item;
             });
         } catch (error) {
             console.error('Failed to read directory:', error);
@@ -58,6 +174,67 @@ export class AIXRemoteExplorer implements vscode.TreeDataProvider<FileItem> {
             return [];
         }
     }
+
+    private watchDirectory(path: string): void {
+        if (this.directoryWatches.has(path)) {
+            return;
+        }
+
+        // Placeholder so concurrent listings of the same directory subscribe once
+        const placeholder = new vscode.Disposable(() => {});
+        this.directoryWatches.set(path, placeholder);
+
+        this.aixManager.watch(path, { recursive: false, excludes: [] }, (changes) => {
+            // The directory's own mtime changes with its entries; only the entries matter
+            this.refreshPaths(changes.filter(change => change.path !== path).map(change => change.path));
+        }).then(disposable => {
+            // Unless it was collapsed, and maybe expanded again, meanwhile
+            if (this.directoryWatches.get(path) === placeholder) {
+                this.directoryWatches.set(path, disposable);
+            } else {
+                disposable.dispose();
+            }
+        }).catch(error => {
+            if (this.directoryWatches.get(path) === placeholder) {
+                this.directoryWatches.delete(path);
+            }
+            console.error(`Failed to watch directory ${path}:`, error);
+        });
+    }
+
+    // The directory and everything below it
+    private unwatchDirectory(path: string): void {
+        const prefix = path === '/' ? '/' : `${path}/`;
+        for (const [watched, watch] of this.directoryWatches) {
+            if (watched === path || watched.startsWith(prefix)) {
+                watch.dispose();
+                this.directoryWatches.delete(watched);
+            }
+        }
+    }
+
+    // Subdirectories that are gone from a fresh listing of their parent, and
+    // everything below them
+    private forgetRemovedDirectories(path: string, listed: string[]): void {
+        const present = new Set(listed);
+        const prefix = path === '/' ? '/' : `${path}/`;
+        for (const directory of Array.from(this.directoryItems.keys())) {
+            if (!directory.startsWith(prefix)) {
+                continue;
+            }
+            const end = directory.indexOf('/', prefix.length);
+            const child = end === -1 ? directory : directory.slice(0, end);
+            if (!present.has(child)) {
+                this.directoryItems.delete(directory);
+                this.unwatchDirectory(directory);
+            }
+        }
+    }
+
+    private disposeWatches(): void {
+        this.directoryWatches.forEach(watch => watch.dispose());
+        this.directoryWatches.clear();
+    }
 }
 
 export class FileItem extends vscode.TreeItem {
@@ -65,7 +242,9 @@ export class FileItem extends vscode.TreeItem {
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
         public readonly resourceUri: vscode.Uri,
-        public readonly fileType: string
+        public readonly fileType: string,
+        // Set for symbolic links; fileType is then the type of the target
+        public readonly linkTarget?: string
     ) {
         super(label, collapsibleState);
 
@@ -92,14 +271,22 @@ export class FileItem extends vscode.TreeItem {
                     this.fileType === 'symlink' ? 'Symbolic Link' :
                     this.fileType === 'error' ? 'Error' : 'Unknown';
         
-        if (this.fileType === 'error') {
+        if (this.fileType === 'error' || this.fileType === 'reconnecting') {
             return this.label;
         }
         
+        if (this.linkTarget !== undefined) {
+            return `Symbolic Link: ${path} → ${this.linkTarget}`;
+        }
+        
         return `${type}: ${path}`;
     }
 
     private getIcon(): vscode.ThemeIcon {
+        if (this.linkTarget !== undefined && this.fileType !== 'error') {
+            return new vscode.ThemeIcon(this.fileType === 'directory' ? 'file-symlink-directory' : 'file-symlink-file');
+        }
+
         switch (this.fileType) {
             case 'directory':
                 return new vscode.ThemeIcon('folder');
@@ -144,6 +331,8 @@ export class FileItem extends vscode.TreeItem {
                 return new vscode.ThemeIcon('file-symlink-file');
             case 'error':
                 return new vscode.ThemeIcon('error');
+            case 'reconnecting':
+                return new vscode.ThemeIcon('sync~spin');
             default:
                 return new vscode.ThemeIcon('file');
         }
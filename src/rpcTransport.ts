@@ -0,0 +1,104 @@
+import WebSocket from 'ws';
+import { ClientChannel } from 'ssh2';
+import { StringDecoder } from 'string_decoder';
+
+export interface RPCMessage {
+    jsonrpc: '2.0';
+    method: string;
+    params?: any;
+    id?: string | number;
+}
+
+export interface RPCResponse {
+    jsonrpc: '2.0';
+    result?: any;
+    error?: { code: number; message: string; data?: any };
+    id: string | number | null;
+}
+
+/**
+ * Message channel to the remote server, independent of how it is carried
+ */
+export interface RPCTransport {
+    // An array is sent as a single JSON-RPC batch
+    send(message: RPCMessage | RPCMessage[]): void;
+    isOpen(): boolean;
+    close(): void;
+}
+
+export class WebSocketTransport implements RPCTransport {
+    constructor(private ws: WebSocket) {}
+
+    send(message: RPCMessage | RPCMessage[]): void {
+        this.ws.send(JSON.stringify(message));
+    }
+
+    isOpen(): boolean {
+        return this.ws.readyState === WebSocket.OPEN;
+    }
+
+    close(): void {
+        this.ws.close();
+    }
+}
+
+/**
+ * Newline-delimited JSON-RPC over the stdin/stdout of an SSH exec channel
+ * running `node dist/server.js --stdio`
+ */
+export class StdioTransport implements RPCTransport {
+    private buffer: string = '';
+    private decoder = new StringDecoder('utf8');
+    private open: boolean = true;
+
+    constructor(
+        private stream: ClientChannel,
+        onMessage: (response: RPCResponse | RPCResponse[]) => void,
+        onClose: () => void
+    ) {
+        stream.on('data', (data: Buffer) => {
+            this.buffer += this.decoder.write(data);
+            let newline: number;
+            while ((newline = this.buffer.indexOf('\n')) >= 0) {
+                const line = this.buffer.slice(0, newline).trim();
+                this.buffer = this.buffer.slice(newline + 1);
+                if (!line) {
+                    continue;
+                }
+                try {
+                    onMessage(JSON.parse(line));
+                } catch (error) {
+                    console.error('Failed to parse server message:', error);
+                }
+            }
+        });
+
+        // Server diagnostics arrive on stderr so they never corrupt the protocol
+        stream.stderr.on('data', (data: Buffer) => {
+            console.log('Server:', data.toString().trim());
+        });
+
+        stream.on('close', () => {
+            this.open = false;
+            onClose();
+        });
+    }
+
+    send(message: RPCMessage | RPCMessage[]): void {
+        if (!this.open) {
+            throw new Error('Server channel is closed');
+        }
+        this.stream.write(JSON.stringify(message) + '\n');
+    }
+
+    isOpen(): boolean {
+        return this.open;
+    }
+
+    close(): void {
+        if (this.open) {
+            // EOF on stdin makes the server clean up and exit
+            this.stream.end();
+        }
+    }
+}
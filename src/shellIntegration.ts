@@ -0,0 +1,85 @@
+/**
+ * What a terminal's shell integration reported: the shell's working directory
+ * (OSC 7 or `OSC 633 ; P ; Cwd=`) and the end of a command (`OSC 633 ; D`).
+ * The sequences themselves stay in the output, where VS Code reads the
+ * prompt and command marks for its decorations.
+ */
+export type ShellIntegrationEvent =
+    | { type: 'cwd'; path: string }
+    | { type: 'commandFinished'; exitCode?: number };
+
+const SEQUENCE_PATTERN = /\x1b\](7|633);([^\x07\x1b]*)(?:\x07|\x1b\\)/g;
+// Longer unterminated sequences are not worth waiting for
+const MAX_PARTIAL_LENGTH = 4096;
+
+export class ShellIntegrationParser {
+    // The start of a sequence cut off at the end of the last chunk
+    private partial = '';
+    // Shells that send `633 ; P ; Cwd=` send the path as is, which beats
+    // guessing whether the OSC 7 path is percent-encoded
+    private cwdFromOsc633 = false;
+
+    parse(data: string): ShellIntegrationEvent[] {
+        const text = this.partial + data;
+        const events: ShellIntegrationEvent[] = [];
+        let end = 0;
+
+        SEQUENCE_PATTERN.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = SEQUENCE_PATTERN.exec(text))) {
+            end = SEQUENCE_PATTERN.lastIndex;
+            if (match[1] === '7') {
+                const event = parseOsc7(match[2]);
+                if (event && !this.cwdFromOsc633) {
+                    events.push(event);
+                }
+                continue;
+            }
+            const event = parseOsc633(match[2]);
+            if (event?.type === 'cwd') {
+                this.cwdFromOsc633 = true;
+            }
+            if (event) {
+                events.push(event);
+            }
+        }
+
+        // An unterminated sequence, which may end in the first half of ESC \,
+        // or failing that an ESC that may start one
+        const open = text.lastIndexOf('\x1b]');
+        const start = open >= end ? open : text.endsWith('\x1b') ? text.length - 1 : -1;
+        const rest = start >= end ? text.slice(start) : '';
+        this.partial = rest && !/\x07|\x1b\\/.test(rest) && rest.length < MAX_PARTIAL_LENGTH ? rest : '';
+        return events;
+    }
+
+    reset(): void {
+        this.partial = '';
+        this.cwdFromOsc633 = false;
+    }
+}
+
+// file://host/path, with the path percent-encoded
+function parseOsc7(value: string): ShellIntegrationEvent | undefined {
+    const match = /^file:\/\/[^/]*(\/.*)$/.exec(value);
+    if (!match) {
+        return undefined;
+    }
+    try {
+        return { type: 'cwd', path: decodeURIComponent(match[1]) };
+    } catch (error) {
+        // Not encoded after all
+        return { type: 'cwd', path: match[1] };
+    }
+}
+
+function parseOsc633(value: string): ShellIntegrationEvent | undefined {
+    if (value === 'D' || value.startsWith('D;')) {
+        const exitCode = parseInt(value.slice(2), 10);
+        return { type: 'commandFinished', exitCode: isNaN(exitCode) ? undefined : exitCode };
+    }
+    if (value.startsWith('P;Cwd=')) {
+        return { type: 'cwd', path: value.slice('P;Cwd='.length) };
+    }
+    return undefined;
+}
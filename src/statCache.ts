@@ -0,0 +1,74 @@
+interface CacheEntry<T> {
+    value: T;
+    expires: number;
+}
+
+/**
+ * Short-lived cache of stat results and directory listings by remote path.
+ *
+ * Expanding a directory is followed by a stat of every entry; answering those
+ * from the listing saves a round trip each. Entries expire quickly, and are
+ * dropped as soon as we write to a path or the server reports a change to it.
+ */
+export class StatCache {
+    private stats: Map<string, CacheEntry<any>> = new Map();
+    private listings: Map<string, CacheEntry<any[]>> = new Map();
+
+    constructor(private ttlMs: number) {}
+
+    getStat(path: string): any | undefined {
+        return this.lookup(this.stats, path);
+    }
+
+    setStat(path: string, stat: any): void {
+        this.stats.set(path, { value: stat, expires: Date.now() + this.ttlMs });
+    }
+
+    getListing(path: string): any[] | undefined {
+        return this.lookup(this.listings, path);
+    }
+
+    setListing(path: string, entries: any[]): void {
+        this.listings.set(path, { value: entries, expires: Date.now() + this.ttlMs });
+        for (const entry of entries) {
+            if (entry.stat) {
+                this.setStat(entry.path, entry.stat);
+            }
+        }
+    }
+
+    /**
+     * Forget a path, everything below it, and the listing of its parent
+     */
+    invalidate(path: string): void {
+        const parent = path.substring(0, path.lastIndexOf('/')) || '/';
+        this.listings.delete(parent);
+
+        const prefix = path.endsWith('/') ? path : `${path}/`;
+        for (const cache of [this.stats, this.listings] as Map<string, CacheEntry<any>>[]) {
+            cache.delete(path);
+            for (const key of cache.keys()) {
+                if (key.startsWith(prefix)) {
+                    cache.delete(key);
+                }
+            }
+        }
+    }
+
+    clear(): void {
+        this.stats.clear();
+        this.listings.clear();
+    }
+
+    private lookup<T>(cache: Map<string, CacheEntry<T>>, path: string): T | undefined {
+        const entry = cache.get(path);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expires < Date.now()) {
+            cache.delete(path);
+            return undefined;
+        }
+        return entry.value;
+    }
+}
@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+import { AIXRemoteManager, StreamingCommandResult } from './aixRemoteManager';
+import { matchProblem, problemUri, TASK_PROBLEMS_SCHEME, taskProblemsUri, toDiagnostic } from './problemMatchers';
+
+/**
+ * An `aixremote` task in tasks.json
+ */
+export interface AIXTaskDefinition extends vscode.TaskDefinition {
+    command: string;
+    cwd?: string;
+    env?: { [name: string]: string };
+    shell?: string;
+}
+
+/**
+ * Runs `aixremote` tasks on the connected AIX machine. Tasks are only ever
+ * defined in tasks.json, so there is nothing to auto-detect.
+ *
+ * Also serves the documents that problems naming no file are listed in, one
+ * per task, so they can be opened from the Problems panel.
+ */
+export class AIXTaskProvider implements vscode.TaskProvider, vscode.TextDocumentContentProvider {
+    static readonly type = 'aixremote';
+    static readonly problemsScheme = TASK_PROBLEMS_SCHEME;
+
+    private diagnostics: TaskDiagnostics;
+    readonly onDidChange: vscode.Event<vscode.Uri>;
+
+    constructor(
+        private aixManager: AIXRemoteManager,
+        diagnostics: vscode.DiagnosticCollection
+    ) {
+        this.diagnostics = new TaskDiagnostics(diagnostics);
+        this.onDidChange = this.diagnostics.onDidChangeDocument;
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.diagnostics.getDocument(uri.path.slice(1));
+    }
+
+    provideTasks(): vscode.Task[] {
+        return [];
+    }
+
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as AIXTaskDefinition;
+        if (!definition.command) {
+            return undefined;
+        }
+
+        // Problems are matched by the task terminal itself, which can map
+        // remote paths to aixremote: URIs; VS Code's matchers would not
+        const resolved = new vscode.Task(
+            definition,
+            task.scope ?? vscode.TaskScope.Workspace,
+            task.name,
+            AIXTaskProvider.type,
+            // VS Code substitutes ${workspaceFolder} and friends in the definition it passes
+            new vscode.CustomExecution(async resolvedDefinition =>
+                new AIXTaskTerminal(this.aixManager, task.name, resolvedDefinition as AIXTaskDefinition, this.diagnostics)),
+            []
+        );
+        resolved.group = task.group;
+        resolved.presentationOptions = task.presentationOptions;
+        return resolved;
+    }
+}
+
+/**
+ * Shows a remote command's output in the task's terminal and reports the
+ * compiler and linker diagnostics in it
+ */
+class AIXTaskTerminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    private closeEmitter = new vscode.EventEmitter<number>();
+
+    public readonly onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+    public readonly onDidClose: vscode.Event<number> = this.closeEmitter.event;
+
+    private process: StreamingCommandResult | null = null;
+    // Partial lines of stdout and stderr waiting for their newline
+    private partial = { stdout: '', stderr: '' };
+
+    constructor(
+        private aixManager: AIXRemoteManager,
+        private name: string,
+        private definition: AIXTaskDefinition,
+        private diagnostics: TaskDiagnostics
+    ) {}
+
+    async open(): Promise<void> {
+        if (!this.aixManager.isConnected()) {
+            this.writeEmitter.fire('\x1b[31mNot connected to AIX machine\x1b[0m\r\n');
+            this.closeEmitter.fire(1);
+            return;
+        }
+
+        const cwd = this.definition.cwd || this.aixManager.getDefaultPath();
+        // Replaces what the last run of this task found, and only that
+        this.diagnostics.clear(this.name);
+        this.writeEmitter.fire(`\x1b[1m> ${this.definition.command}\x1b[0m (${this.aixManager.getHost()}:${cwd})\r\n\r\n`);
+
+        try {
+            const command = await this.aixManager.executeCommandStreaming(this.definition.command, cwd, {
+                env: this.definition.env,
+                shell: this.definition.shell
+            });
+            this.process = command;
+
+            command.onData(data => this.handleOutput('stdout', data, cwd));
+            command.onError(data => this.handleOutput('stderr', data, cwd));
+            command.onExit((code, signal) => {
+                // A last line may not end with a newline
+                this.matchProblems([this.partial.stdout, this.partial.stderr], cwd);
+                this.process = null;
+                if (signal) {
+                    this.writeEmitter.fire(`\r\n\x1b[33m[Task ended with signal ${signal}]\x1b[0m\r\n`);
+                } else {
+                    this.writeEmitter.fire(`\r\n[Task exited with code ${code}]\r\n`);
+                }
+                this.closeEmitter.fire(code ?? 1);
+            });
+        } catch (error) {
+            this.writeEmitter.fire(`\x1b[31mFailed to start task: ${error instanceof Error ? error.message : String(error)}\x1b[0m\r\n`);
+            this.closeEmitter.fire(1);
+        }
+    }
+
+    close(): void {
+        this.process?.kill('SIGTERM');
+    }
+
+    handleInput(data: string): void {
+        if (!this.process) {
+            return;
+        }
+        // There is no terminal on the other end to turn Ctrl+C into a signal
+        if (data === '\x03') {
+            this.process.kill('SIGINT');
+            return;
+        }
+        this.writeEmitter.fire(data.replace(/\r/g, '\r\n'));
+        this.process.write(data.replace(/\r/g, '\n'));
+    }
+
+    private handleOutput(stream: 'stdout' | 'stderr', data: string, cwd: string): void {
+        this.writeEmitter.fire(data.replace(/\r?\n/g, '\r\n'));
+
+        const lines = (this.partial[stream] + data).split('\n');
+        this.partial[stream] = lines.pop() || '';
+        this.matchProblems(lines, cwd);
+    }
+
+    private matchProblems(lines: string[], cwd: string): void {
+        for (const line of lines) {
+            const text = line.replace(/\r$/, '');
+            let problem = matchProblem(text);
+            if (!problem) {
+                continue;
+            }
+            if (!problem.path) {
+                // At the line the task's problem document lists it on
+                problem = { ...problem, line: this.diagnostics.list(this.name, text) };
+            }
+            this.diagnostics.add(this.name, problemUri(problem, cwd, this.name), toDiagnostic(problem));
+        }
+    }
+}
+
+/**
+ * The diagnostics of each task, in the collection all tasks share. A file
+ * may have problems from more than one task.
+ */
+class TaskDiagnostics {
+    // Diagnostics by task name, then by URI
+    private tasks: Map<string, Map<string, vscode.Diagnostic[]>> = new Map();
+    // Output lines of the problems that name no file, by task name
+    private documents: Map<string, string[]> = new Map();
+    private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChangeDocument: vscode.Event<vscode.Uri> = this.changeEmitter.event;
+
+    constructor(private collection: vscode.DiagnosticCollection) {}
+
+    getDocument(task: string): string {
+        return (this.documents.get(task) || []).join('\n');
+    }
+
+    /**
+     * Add a line to the task's problem document; returns its line number
+     */
+    list(task: string, line: string): number {
+        const lines = this.documents.get(task) || [];
+        lines.push(line);
+        this.documents.set(task, lines);
+        this.changeEmitter.fire(taskProblemsUri(task));
+        return lines.length;
+    }
+
+    add(task: string, uri: vscode.Uri, diagnostic: vscode.Diagnostic): void {
+        let problems = this.tasks.get(task);
+        if (!problems) {
+            problems = new Map();
+            this.tasks.set(task, problems);
+        }
+        const key = uri.toString();
+        problems.set(key, [...(problems.get(key) || []), diagnostic]);
+        this.update(uri);
+    }
+
+    clear(task: string): void {
+        if (this.documents.delete(task)) {
+            this.changeEmitter.fire(taskProblemsUri(task));
+        }
+        const problems = this.tasks.get(task);
+        if (!problems) {
+            return;
+        }
+        this.tasks.delete(task);
+        for (const key of problems.keys()) {
+            this.update(vscode.Uri.parse(key));
+        }
+    }
+
+    private update(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const diagnostics = Array.from(this.tasks.values()).flatMap(problems => problems.get(key) || []);
+        this.collection.set(uri, diagnostics.length > 0 ? diagnostics : undefined);
+    }
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AIXRemoteManager } from './aixRemoteManager';
+import { findLinkCandidates } from './terminalLinks';
+import { AIXTerminalManager } from './terminalProvider';
+
+// Each candidate costs an fs.stat round trip
+const MAX_LINKS_PER_LINE = 10;
+
+class AIXTerminalLink extends vscode.TerminalLink {
+    constructor(startIndex: number, length: number, readonly uri: vscode.Uri, readonly line?: number, readonly column?: number) {
+        super(startIndex, length, `Open ${uri.path}${line ? `:${line}` : ''}`);
+    }
+}
+
+/**
+ * Makes file paths in AIX terminals clickable. Relative paths are resolved
+ * against the shell's working directory, and only paths that name an
+ * existing file on the host become links.
+ */
+export class AIXTerminalLinkProvider implements vscode.TerminalLinkProvider<AIXTerminalLink> {
+    constructor(
+        private aixManager: AIXRemoteManager,
+        private terminalManager: AIXTerminalManager
+    ) {}
+
+    async provideTerminalLinks(context: vscode.TerminalLinkContext, token: vscode.CancellationToken): Promise<AIXTerminalLink[]> {
+        const terminal = this.terminalManager.getProvider(context.terminal);
+        if (!terminal || !this.aixManager.isConnected()) {
+            return [];
+        }
+
+        const cwd = terminal.getCurrentDirectory();
+        const candidates = findLinkCandidates(context.line, MAX_LINKS_PER_LINE)
+            .map(candidate => ({ ...candidate, file: this.resolvePath(candidate.path, cwd) }));
+
+        const links = await Promise.all(candidates.map(async candidate => {
+            try {
+                const stat = await this.aixManager.getStat(candidate.file, { token });
+                if (stat.isDirectory) {
+                    return undefined;
+                }
+            } catch (error) {
+                // No such file, as far as this terminal is concerned
+                return undefined;
+            }
+            return new AIXTerminalLink(candidate.startIndex, candidate.length, vscode.Uri.parse(`aixremote:${candidate.file}`),
+                candidate.line, candidate.column);
+        }));
+        return links.filter((link): link is AIXTerminalLink => link !== undefined);
+    }
+
+    async handleTerminalLink(link: AIXTerminalLink): Promise<void> {
+        const options: vscode.TextDocumentShowOptions = {};
+        if (link.line) {
+            // Lines and columns are counted from 1 in tool output
+            const position = new vscode.Position(link.line - 1, Math.max((link.column || 1) - 1, 0));
+            options.selection = new vscode.Range(position, position);
+        }
+        try {
+            await vscode.window.showTextDocument(link.uri, options);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open ${link.uri.path}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private resolvePath(file: string, cwd: string): string {
+        if (file === '~' || file.startsWith('~/')) {
+            return path.posix.join(this.aixManager.getDefaultPath(), file.slice(1));
+        }
+        return path.posix.resolve(cwd, file);
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * A file reference in a line of terminal output, with the path as printed
+ */
+export interface LinkCandidate {
+    startIndex: number;
+    length: number;
+    path: string;
+    line?: number;
+    column?: number;
+}
+
+// Paths with an optional :line and :column, as printed by gcc, grep -n and
+// most tools, or in the XL C form: "src/main.c", line 12.5
+//   /u/build/src/foo.c:123:7    src/foo.c:123    ./configure
+const LINK_PATTERN = /"([^"\s]+)", line (\d+)(?:\.(\d+))?|((?:~|\.{1,2})?\/?[\w.+@-]+(?:\/[\w.+@-]+)*)(?::(\d+)(?::(\d+))?)?/g;
+
+/**
+ * What in a line may name a file, up to `limit` candidates. A bare word only
+ * counts if it looks like a file name.
+ */
+export function findLinkCandidates(line: string, limit: number): LinkCandidate[] {
+    const candidates: LinkCandidate[] = [];
+    LINK_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = LINK_PATTERN.exec(line)) && candidates.length < limit) {
+        const [text, xlcPath, xlcLine, xlcColumn, file, fileLine, column] = match;
+        const target = xlcPath ?? file;
+        if (!xlcPath && !target.includes('/') && !/\.\w+$/.test(target)) {
+            continue;
+        }
+        candidates.push({
+            startIndex: match.index,
+            length: text.length,
+            path: target,
+            line: toNumber(xlcLine ?? fileLine),
+            column: toNumber(xlcColumn ?? column)
+        });
+    }
+    return candidates;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+    return value ? parseInt(value, 10) : undefined;
+}
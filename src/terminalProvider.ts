@@ -1,29 +1,50 @@
 import * as vscode from 'vscode';
-import { AIXRemoteManager, TerminalSession } from './aixRemoteManager';
+import { AIXRemoteManager, ConnectionState, TerminalLaunchOptions, TerminalMode, TerminalReadyInfo, TerminalSession } from './aixRemoteManager';
+import { ShellIntegrationParser } from './shellIntegration';
+
+// A shell that has not reported in by then is given up on
+const READY_TIMEOUT_MS = 20000;
+
+export interface AIXTerminalOptions extends TerminalLaunchOptions {
+    // Attach to this detached server session instead of starting a shell
+    attachSessionId?: string;
+}
 
 export class AIXTerminalProvider implements vscode.Pseudoterminal {
     private writeEmitter = new vscode.EventEmitter<string>();
     private closeEmitter = new vscode.EventEmitter<number | void>();
-    private dimensionsEmitter = new vscode.EventEmitter<vscode.TerminalDimensions>();
     
     public readonly onDidWrite: vscode.Event<string> = this.writeEmitter.event;
     public readonly onDidClose: vscode.Event<number | void> = this.closeEmitter.event;
     public readonly onDidChangeName?: vscode.Event<string>;
-    public readonly onDidOverrideDimensions?: vscode.Event<vscode.TerminalDimensions | undefined> = this.dimensionsEmitter.event;
     
     private terminalSession: TerminalSession | null = null;
+    // Follows the shell's cd when it has shell integration
     private currentDirectory: string;
+    private lastExitCode: number | undefined;
+    private shellIntegration = new ShellIntegrationParser();
     private dimensions: vscode.TerminalDimensions = { columns: 80, rows: 24 };
-    private isFullTerminal: boolean = false;
+    // As reported by the server once the shell is ready
+    private terminalMode: TerminalMode | undefined;
     private isReady: boolean = false;
+    // Set while the connection is down; the shell is reattached, or replaced
+    // if it did not survive, once the connection is back
+    private sessionLost: boolean = false;
+    private stateSubscription: vscode.Disposable;
+    // Keystrokes typed before the shell is ready, sent in order once it is
+    private pendingInput: string[] = [];
+    // Set when the size changed while the shell was not ready to be told
+    private resizePending: boolean = false;
+    private readyTimer: NodeJS.Timeout | undefined;
     
     constructor(
         private aixManager: AIXRemoteManager,
         private name: string = 'AIX Terminal',
-        initialDirectory?: string
+        initialDirectory?: string,
+        private options: AIXTerminalOptions = {}
     ) {
         this.currentDirectory = initialDirectory || aixManager.getDefaultPath();
-        this.isFullTerminal = aixManager.supportsFullTerminal();
+        this.stateSubscription = aixManager.onDidChangeConnectionState(state => this.handleConnectionState(state));
     }
 
     async open(initialDimensions: vscode.TerminalDimensions | undefined): Promise<void> {
@@ -34,60 +55,196 @@ export class AIXTerminalProvider implements vscode.Pseudoterminal {
         // Send initial messages
         this.writeEmitter.fire('\r\n\x1b[1;32m┌─ AIX Remote Terminal ─┐\x1b[0m\r\n');
         this.writeEmitter.fire(`\x1b[1;32m│\x1b[0m Connected to: ${this.aixManager.getHost()}\r\n`);
+        // The terminal type is only known once the shell is ready
+        this.writeEmitter.fire(`\x1b[1;32m└─────────────────────────┘\x1b[0m\r\n\r\n`);
         
-        if (this.isFullTerminal) {
-            this.writeEmitter.fire(`\x1b[1;32m│\x1b[0m Terminal type: Full PTY (node-pty)\r\n`);
+        if (this.options.attachSessionId) {
+            await this.attachSession(this.options.attachSessionId);
         } else {
-            this.writeEmitter.fire(`\x1b[1;32m│\x1b[0m Terminal type: Basic (spawn fallback)\r\n`);
+            await this.startSession();
         }
-        
-        this.writeEmitter.fire(`\x1b[1;32m└─────────────────────────┘\x1b[0m\r\n\r\n`);
-        
+    }
+
+    private async startSession(): Promise<void> {
         try {
             // Create terminal session
             this.writeEmitter.fire('Initializing terminal session...\r\n');
-            this.terminalSession = await this.aixManager.createTerminalSession(
+            const session = await this.aixManager.createTerminalSession(
                 this.currentDirectory, 
                 this.dimensions.columns, 
-                this.dimensions.rows
+                this.dimensions.rows,
+                this.name,
+                this.options
             );
+            this.bindSession(session);
+            this.waitForReady(session);
+        } catch (error) {
+            this.writeEmitter.fire(`\x1b[31mFailed to create terminal session: ${error instanceof Error ? error.message : String(error)}\x1b[0m\r\n`);
+            this.closeEmitter.fire(1);
+        }
+    }
 
-            // Set up terminal session handlers
-            this.terminalSession.onData((data: string) => {
+    private async attachSession(sessionId: string): Promise<void> {
+        try {
+            this.writeEmitter.fire('Reattaching terminal session...\r\n\r\n');
+            const session = await this.aixManager.attachTerminalSession(sessionId);
+            this.bindSession(session);
+            // Attaching only returns once the session is ready
+            this.handleReady(session, { reattached: true });
+        } catch (error) {
+            this.writeEmitter.fire(`\x1b[31mFailed to reattach terminal session: ${error instanceof Error ? error.message : String(error)}\x1b[0m\r\n`);
+            this.stateSubscription.dispose();
+            this.closeEmitter.fire(1);
+        }
+    }
+
+    private bindSession(session: TerminalSession): void {
+        this.terminalSession = session;
+        this.shellIntegration.reset();
+
+        // Set up terminal session handlers; a session lost with the
+        // connection may still report in after it was replaced
+        session.onData((data: string) => {
+            if (this.terminalSession === session) {
+                this.handleShellIntegration(data);
                 this.writeEmitter.fire(data);
-            });
+            }
+        });
 
-            this.terminalSession.onExit((exitCode: number, signal?: number) => {
-                this.isReady = false;
-                if (signal) {
-                    this.writeEmitter.fire(`\r\n\x1b[33m[Terminal session ended with signal ${signal}]\x1b[0m\r\n`);
-                } else {
-                    this.writeEmitter.fire(`\r\n\x1b[33m[Terminal session ended with exit code ${exitCode}]\x1b[0m\r\n`);
-                }
-                this.closeEmitter.fire(exitCode);
-            });
+        session.onExit((exitCode: number, signal?: number) => {
+            if (this.terminalSession !== session) {
+                return;
+            }
+            this.isReady = false;
+            if (signal) {
+                this.writeEmitter.fire(`\r\n\x1b[33m[Terminal session ended with signal ${signal}]\x1b[0m\r\n`);
+            } else {
+                this.writeEmitter.fire(`\r\n\x1b[33m[Terminal session ended with exit code ${exitCode}]\x1b[0m\r\n`);
+            }
+            this.stateSubscription.dispose();
+            this.closeEmitter.fire(exitCode);
+        });
 
-            // Wait for terminal to be ready
-            const waitForReady = () => {
-                if (this.terminalSession && this.terminalSession.isReady()) {
-                    this.isReady = true;
-                    this.writeEmitter.fire('\x1b[2J\x1b[H'); // Clear screen and reset cursor
-                } else {
-                    setTimeout(waitForReady, 100);
-                }
-            };
-            waitForReady();
+        session.onReady(info => {
+            if (this.terminalSession === session) {
+                this.handleReady(session, info);
+            }
+        });
+    }
 
-        } catch (error) {
-            this.writeEmitter.fire(`\x1b[31mFailed to create terminal session: ${error instanceof Error ? error.message : String(error)}\x1b[0m\r\n`);
+    /**
+     * Give up on a session that does not report ready in time, rather than
+     * leave a terminal that silently swallows input
+     */
+    private waitForReady(session: TerminalSession): void {
+        this.clearReadyTimer();
+        this.readyTimer = setTimeout(() => {
+            this.readyTimer = undefined;
+            if (this.terminalSession !== session || this.isReady) {
+                return;
+            }
+            this.writeEmitter.fire(`\x1b[31m[Terminal session did not start within ${READY_TIMEOUT_MS / 1000} seconds]\x1b[0m\r\n`);
+            this.terminalSession = null;
+            // Typed for a shell that never came
+            this.pendingInput = [];
+            session.kill('SIGHUP');
+            session.dispose();
+            this.stateSubscription.dispose();
             this.closeEmitter.fire(1);
+        }, READY_TIMEOUT_MS);
+    }
+
+    private clearReadyTimer(): void {
+        if (this.readyTimer) {
+            clearTimeout(this.readyTimer);
+            this.readyTimer = undefined;
+        }
+    }
+
+    private handleReady(session: TerminalSession, info: TerminalReadyInfo): void {
+        this.clearReadyTimer();
+        this.isReady = true;
+        this.terminalMode = info.mode ?? this.terminalMode;
+        if (!info.reattached) {
+            this.writeEmitter.fire('\x1b[2J\x1b[H'); // Clear screen and reset cursor
+            if (info.mode === 'spawn') {
+                this.writeEmitter.fire('\x1b[33m[Terminal type: Basic, no pseudo-terminal on the host: full-screen programs such as vi will not work]\x1b[0m\r\n');
+            }
+        }
+
+        // A resumed shell may have been sized by another window
+        if (this.resizePending || info.reattached) {
+            this.resizePending = false;
+            session.resize(this.dimensions.columns, this.dimensions.rows);
+        }
+        if (this.pendingInput.length > 0) {
+            session.write(this.pendingInput.join(''));
+            this.pendingInput = [];
+        }
+    }
+
+    private handleShellIntegration(data: string): void {
+        for (const event of this.shellIntegration.parse(data)) {
+            if (event.type === 'cwd') {
+                // A shell started after a lost session picks up from here
+                this.currentDirectory = event.path;
+            } else {
+                this.lastExitCode = event.exitCode;
+            }
+        }
+    }
+
+    private handleConnectionState(state: ConnectionState): void {
+        if (state === 'reconnecting' && this.terminalSession) {
+            this.isReady = false;
+            this.sessionLost = true;
+            this.writeEmitter.fire('\r\n\x1b[33m[Connection to AIX machine lost, reconnecting...]\x1b[0m\r\n');
+        } else if (state === 'connected' && this.sessionLost) {
+            this.sessionLost = false;
+            this.resumeSession();
+        } else if (state === 'disconnected' && this.sessionLost) {
+            this.sessionLost = false;
+            this.writeEmitter.fire('\x1b[31m[Could not reconnect to AIX machine]\x1b[0m\r\n');
+            this.stateSubscription.dispose();
+            this.closeEmitter.fire(1);
+        }
+    }
+
+    /**
+     * Reattach to the shell after a reconnect. The server only keeps it while
+     * it runs as a long-lived (WebSocket) server and within the grace period;
+     * otherwise a new shell takes its place.
+     */
+    private async resumeSession(): Promise<void> {
+        const session = this.terminalSession;
+        if (!session) {
+            return;
+        }
+
+        try {
+            this.waitForReady(session);
+            await session.reattach();
+            if (this.terminalSession === session) {
+                this.writeEmitter.fire('\x1b[33m[Reconnected]\x1b[0m\r\n');
+            }
+        } catch (error) {
+            if (this.terminalSession !== session) {
+                return;
+            }
+            this.terminalSession = null;
+            this.writeEmitter.fire('\x1b[33m[Reconnected, starting a new shell]\x1b[0m\r\n');
+            await this.startSession();
         }
     }
 
     close(): void {
+        this.stateSubscription.dispose();
+        this.clearReadyTimer();
         this.isReady = false;
+        this.pendingInput = [];
         if (this.terminalSession) {
-            this.terminalSession.kill('SIGTERM');
+            // Interactive shells ignore SIGTERM
+            this.terminalSession.kill('SIGHUP');
             this.terminalSession = null;
         }
         this.closeEmitter.fire();
@@ -96,9 +253,9 @@ export class AIXTerminalProvider implements vscode.Pseudoterminal {
     handleInput(data: string): void {
         if (this.terminalSession && this.isReady) {
             this.terminalSession.write(data);
-        } else if (!this.isReady) {
+        } else {
             // Queue input until terminal is ready
-            setTimeout(() => this.handleInput(data), 100);
+            this.pendingInput.push(data);
         }
     }
 
@@ -106,6 +263,9 @@ export class AIXTerminalProvider implements vscode.Pseudoterminal {
         this.dimensions = dimensions;
         if (this.terminalSession && this.isReady) {
             this.terminalSession.resize(dimensions.columns, dimensions.rows);
+        } else {
+            // Sent once the shell is ready; a new one starts at this size anyway
+            this.resizePending = true;
         }
     }
 
@@ -113,8 +273,19 @@ export class AIXTerminalProvider implements vscode.Pseudoterminal {
         return this.currentDirectory;
     }
 
+    /**
+     * Exit status of the last command, if the shell reports it
+     */
+    public getLastExitCode(): number | undefined {
+        return this.lastExitCode;
+    }
+
     public getTerminalType(): 'full' | 'basic' {
-        return this.isFullTerminal ? 'full' : 'basic';
+        // Servers too old to report the mode use either node-pty or plain pipes
+        if (this.terminalMode) {
+            return this.terminalMode === 'spawn' ? 'basic' : 'full';
+        }
+        return this.aixManager.supportsFullTerminal() ? 'full' : 'basic';
     }
 
     public isTerminalReady(): boolean {
@@ -127,57 +298,55 @@ export class AIXTerminalManager {
     
     constructor(private aixManager: AIXRemoteManager) {}
 
-    createTerminal(name?: string, initialDirectory?: string): vscode.Terminal {
+    createTerminal(name?: string, initialDirectory?: string, options?: TerminalLaunchOptions): vscode.Terminal {
+        return vscode.window.createTerminal(this.createTerminalOptions(name, initialDirectory, options));
+    }
+
+    /**
+     * Open a terminal on a session left running on the server, e.g. by a
+     * window that lost its connection
+     */
+    attachTerminal(sessionId: string, name?: string): vscode.Terminal {
+        return vscode.window.createTerminal(this.createTerminalOptions(name, undefined, { attachSessionId: sessionId }));
+    }
+
+    /**
+     * Options for a new AIX terminal, for window.createTerminal or a terminal
+     * profile. The terminal is tracked until it is closed.
+     */
+    createTerminalOptions(name?: string, initialDirectory?: string, options: AIXTerminalOptions = {}): vscode.ExtensionTerminalOptions {
         if (!this.aixManager.isConnected()) {
             throw new Error('Not connected to AIX machine');
         }
 
         const terminalName = name || `AIX (${this.aixManager.getHost().split('.')[0]})`;
-        const provider = new AIXTerminalProvider(this.aixManager, terminalName, initialDirectory);
-        
-        const terminal = vscode.window.createTerminal({
-            name: terminalName,
-            pty: provider
-        });
+        const provider = new AIXTerminalProvider(this.aixManager, terminalName, initialDirectory, options);
 
         // Store reference for cleanup
         const terminalId = `${terminalName}-${Date.now()}`;
         this.terminals.set(terminalId, provider);
 
-        // Clean up when terminal is disposed
+        // Clean up when terminal is disposed; a terminal opened from a
+        // profile is only known by its pty
         const disposable = vscode.window.onDidCloseTerminal((closedTerminal) => {
-            if (closedTerminal === terminal) {
+            if ((closedTerminal.creationOptions as vscode.ExtensionTerminalOptions).pty === provider) {
                 this.terminals.delete(terminalId);
                 disposable.dispose();
             }
         });
 
-        return terminal;
+        return {
+            name: terminalName,
+            pty: provider
+        };
     }
 
-    createInteractiveTerminal(name?: string, initialDirectory?: string, options?: {
-        shellCommand?: string;
-        shellArgs?: string[];
-    }): vscode.Terminal {
-        const terminal = this.createTerminal(name, initialDirectory);
-        
-        // If specific shell options are provided, send them after terminal is ready
-        if (options?.shellCommand) {
-            setTimeout(() => {
-                // Get the provider to send custom shell command
-                const provider = Array.from(this.terminals.values()).find(p => 
-                    p.getTerminalType() === 'full' || p.getTerminalType() === 'basic'
-                );
-                if (provider && provider.isTerminalReady()) {
-                    const command = options.shellArgs ? 
-                        `${options.shellCommand} ${options.shellArgs.join(' ')}` : 
-                        options.shellCommand;
-                    provider.handleInput(command + '\n');
-                }
-            }, 1000);
-        }
-
-        return terminal;
+    /**
+     * A terminal whose shell is started with the given options; anything
+     * left out comes from the host's aixRemote.terminal.hosts settings
+     */
+    createInteractiveTerminal(name?: string, initialDirectory?: string, options?: TerminalLaunchOptions): vscode.Terminal {
+        return this.createTerminal(name, initialDirectory, options);
     }
 
     dispose(): void {
@@ -196,6 +365,14 @@ export class AIXTerminalManager {
         return this.aixManager.supportsFullTerminal();
     }
 
+    /**
+     * The AIX terminal behind a VS Code terminal, if it is one of ours
+     */
+    getProvider(terminal: vscode.Terminal): AIXTerminalProvider | undefined {
+        const pty = (terminal.creationOptions as vscode.ExtensionTerminalOptions).pty;
+        return Array.from(this.terminals.values()).find(provider => provider === pty);
+    }
+
     getActiveTerminals(): AIXTerminalProvider[] {
         return Array.from(this.terminals.values());
     }
@@ -211,4 +388,29 @@ export class AIXTerminalManager {
         await Promise.all(closePromises);
         this.terminals.clear();
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Offers AIX terminals in the terminal "+" dropdown, so AIX Remote can also
+ * be the default profile. Where and how the shell starts comes from the
+ * aixRemote.terminal.profile settings.
+ */
+export class AIXTerminalProfileProvider implements vscode.TerminalProfileProvider {
+    static readonly id = 'aixRemote.terminal';
+
+    constructor(private terminalManager: AIXTerminalManager) {}
+
+    provideTerminalProfile(): vscode.TerminalProfile {
+        const config = vscode.workspace.getConfiguration('aixRemote.terminal.profile');
+        const shell = config.get<string>('shell', 'default');
+        return new vscode.TerminalProfile(this.terminalManager.createTerminalOptions(
+            undefined,
+            config.get<string>('cwd') || undefined,
+            {
+                shell: shell === 'default' ? undefined : shell,
+                // Left to the host's settings unless turned on here
+                login: config.get<boolean>('login', false) || undefined
+            }
+        ));
+    }
+}
@@ -0,0 +1,64 @@
+const { describe, it } = require('node:test');
+const assert = require('assert');
+const { LD_FILE_PATTERN, LD_PATTERN, XLC_PATTERN } = require('../out/problemPatterns');
+const { contributes } = require('../package.json');
+
+describe('XLC_PATTERN', () => {
+    it('matches a message with a column', () => {
+        const match = XLC_PATTERN.exec('"src/main.c", line 12.5: 1506-045 (S) Undeclared identifier count.');
+        assert.deepStrictEqual(match.slice(1), ['src/main.c', '12', '5', '1506-045', 'S', 'Undeclared identifier count.']);
+    });
+
+    it('matches a message without a column', () => {
+        const match = XLC_PATTERN.exec('"/u/build/util.h", line 3: 1540-0040 (W) The text "x" is unexpected.');
+        assert.deepStrictEqual(match.slice(1), ['/u/build/util.h', '3', undefined, '1540-0040', 'W', 'The text "x" is unexpected.']);
+    });
+
+    it('ignores other output', () => {
+        assert.strictEqual(XLC_PATTERN.exec('xlc -c -o main.o "src/main.c"'), null);
+        assert.strictEqual(XLC_PATTERN.exec('"src/main.c", line 12.5: 1506-045 (X) Unknown level.'), null);
+    });
+});
+
+describe('LD_PATTERN', () => {
+    it('matches messages with a severity', () => {
+        assert.deepStrictEqual(LD_PATTERN.exec('ld: 0711-317 ERROR: Undefined symbol: .compute').slice(1),
+            ['0711-317', 'ERROR', 'Undefined symbol: .compute']);
+        assert.deepStrictEqual(LD_PATTERN.exec('ld: 0711-224 WARNING: Duplicate symbol: count').slice(1),
+            ['0711-224', 'WARNING', 'Duplicate symbol: count']);
+        assert.deepStrictEqual(LD_PATTERN.exec('ld: 0711-780 SEVERE ERROR: Symbol .x is not defined.').slice(1),
+            ['0711-780', 'SEVERE ERROR', 'Symbol .x is not defined.']);
+    });
+
+    it('matches messages without one', () => {
+        assert.deepStrictEqual(LD_PATTERN.exec('ld: 0706-006 Cannot find or open library file: -l ssl').slice(1),
+            ['0706-006', undefined, 'Cannot find or open library file: -l ssl']);
+    });
+
+    it('ignores other output', () => {
+        assert.strictEqual(LD_PATTERN.exec('ld -o app main.o'), null);
+        assert.strictEqual(LD_PATTERN.exec('gld: error: undefined reference'), null);
+    });
+});
+
+describe('LD_FILE_PATTERN', () => {
+    it('matches the messages that name a file', () => {
+        assert.deepStrictEqual(LD_FILE_PATTERN.exec('ld: 0706-005 Cannot find or open file: util.o').slice(1),
+            ['0706-005', undefined, 'Cannot find or open file: util.o', 'util.o']);
+        assert.deepStrictEqual(LD_FILE_PATTERN.exec('ld: 0706-004 Cannot find or read export file: /u/lib/foo.exp').slice(1),
+            ['0706-004', undefined, 'Cannot find or read export file: /u/lib/foo.exp', '/u/lib/foo.exp']);
+    });
+
+    it('ignores libraries and messages without a file', () => {
+        assert.strictEqual(LD_FILE_PATTERN.exec('ld: 0706-006 Cannot find or open library file: -l ssl'), null);
+        assert.strictEqual(LD_FILE_PATTERN.exec('ld: 0711-317 ERROR: Undefined symbol: .compute'), null);
+    });
+});
+
+describe('contributed problem matchers', () => {
+    it('use the same patterns as tasks', () => {
+        const patterns = Object.fromEntries(contributes.problemMatchers.map(matcher => [matcher.name, matcher.pattern.regexp]));
+        assert.strictEqual(patterns.xlc, XLC_PATTERN.source);
+        assert.strictEqual(patterns['aix-ld'], LD_FILE_PATTERN.source);
+    });
+});
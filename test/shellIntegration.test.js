@@ -0,0 +1,53 @@
+const { describe, it } = require('node:test');
+const assert = require('assert');
+const { ShellIntegrationParser } = require('../out/shellIntegration');
+
+describe('ShellIntegrationParser', () => {
+    it('reports the cwd and command results', () => {
+        const parser = new ShellIntegrationParser();
+        assert.deepStrictEqual(parser.parse('\x1b]633;A\x07$ \x1b]633;B\x07'), []);
+        assert.deepStrictEqual(parser.parse('out\r\n\x1b]633;D;2\x07\x1b]633;P;Cwd=/u/src\x07'), [
+            { type: 'commandFinished', exitCode: 2 },
+            { type: 'cwd', path: '/u/src' }
+        ]);
+        assert.deepStrictEqual(parser.parse('\x1b]633;D\x1b\\'), [{ type: 'commandFinished', exitCode: undefined }]);
+    });
+
+    it('decodes OSC 7 paths', () => {
+        const parser = new ShellIntegrationParser();
+        assert.deepStrictEqual(parser.parse('\x1b]7;file://aixhost/u/my%20src\x07'), [{ type: 'cwd', path: '/u/my src' }]);
+        assert.deepStrictEqual(parser.parse('\x1b]7;file://aixhost/u/100%\x07'), [{ type: 'cwd', path: '/u/100%' }]);
+    });
+
+    it('prefers 633 ; P ; Cwd= over OSC 7 once a shell sends it', () => {
+        const parser = new ShellIntegrationParser();
+        assert.deepStrictEqual(parser.parse('\x1b]633;P;Cwd=/u/a%41\x07\x1b]7;file://aixhost/u/a%41\x07'), [
+            { type: 'cwd', path: '/u/a%41' }
+        ]);
+        parser.reset();
+        assert.deepStrictEqual(parser.parse('\x1b]7;file://aixhost/u/a%41\x07'), [{ type: 'cwd', path: '/u/aA' }]);
+    });
+
+    it('puts together sequences split across chunks', () => {
+        const parser = new ShellIntegrationParser();
+        const output = 'done\r\n\x1b]633;D;0\x07\x1b]633;P;Cwd=/u/src\x1b\\$ ';
+        const events = [];
+        // Every split point, including inside ESC \ and right after an ESC
+        for (let i = 0; i <= output.length; i++) {
+            parser.reset();
+            events.push([...parser.parse(output.slice(0, i)), ...parser.parse(output.slice(i))]);
+        }
+        for (const split of events) {
+            assert.deepStrictEqual(split, [
+                { type: 'commandFinished', exitCode: 0 },
+                { type: 'cwd', path: '/u/src' }
+            ]);
+        }
+    });
+
+    it('does not hold on to an unterminated sequence', () => {
+        const parser = new ShellIntegrationParser();
+        assert.deepStrictEqual(parser.parse(`\x1b]633;P;Cwd=${'x'.repeat(5000)}`), []);
+        assert.deepStrictEqual(parser.parse('\x07\x1b]633;D;1\x07'), [{ type: 'commandFinished', exitCode: 1 }]);
+    });
+});
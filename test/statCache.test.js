@@ -0,0 +1,52 @@
+const { describe, it, beforeEach } = require('node:test');
+const assert = require('assert');
+const { StatCache } = require('../out/statCache');
+
+describe('StatCache', () => {
+    let now;
+    let cache;
+
+    beforeEach((t) => {
+        now = 1000;
+        t.mock.method(Date, 'now', () => now);
+        cache = new StatCache(500);
+    });
+
+    it('forgets entries once they expire', () => {
+        cache.setStat('/u/a.c', { size: 1 });
+        now += 500;
+        assert.deepStrictEqual(cache.getStat('/u/a.c'), { size: 1 });
+        now += 1;
+        assert.strictEqual(cache.getStat('/u/a.c'), undefined);
+    });
+
+    it('answers stats of listed entries from the listing', () => {
+        cache.setListing('/u', [
+            { path: '/u/a.c', stat: { size: 1 } },
+            { path: '/u/b.c' }
+        ]);
+        assert.strictEqual(cache.getListing('/u').length, 2);
+        assert.deepStrictEqual(cache.getStat('/u/a.c'), { size: 1 });
+        assert.strictEqual(cache.getStat('/u/b.c'), undefined);
+    });
+
+    it('drops a path, everything below it and the listing of its parent', () => {
+        cache.setListing('/u', [{ path: '/u/src', stat: { size: 0 } }]);
+        cache.setListing('/u/src', [{ path: '/u/src/a.c', stat: { size: 1 } }]);
+        cache.setStat('/u/src2', { size: 2 });
+
+        cache.invalidate('/u/src');
+        assert.strictEqual(cache.getListing('/u'), undefined);
+        assert.strictEqual(cache.getStat('/u/src'), undefined);
+        assert.strictEqual(cache.getListing('/u/src'), undefined);
+        assert.strictEqual(cache.getStat('/u/src/a.c'), undefined);
+        assert.deepStrictEqual(cache.getStat('/u/src2'), { size: 2 });
+    });
+
+    it('drops the root listing for a file in /', () => {
+        cache.setListing('/', [{ path: '/unix', stat: { size: 1 } }]);
+        cache.invalidate('/unix');
+        assert.strictEqual(cache.getListing('/'), undefined);
+        assert.strictEqual(cache.getStat('/unix'), undefined);
+    });
+});
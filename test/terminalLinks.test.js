@@ -0,0 +1,48 @@
+const { describe, it } = require('node:test');
+const assert = require('assert');
+const { findLinkCandidates } = require('../out/terminalLinks');
+
+function links(line, limit = 10) {
+    return findLinkCandidates(line, limit).map(({ startIndex, length, ...link }) => ({
+        text: line.substr(startIndex, length),
+        ...link
+    }));
+}
+
+describe('findLinkCandidates', () => {
+    it('finds XL C file references', () => {
+        assert.deepStrictEqual(links('"src/main.c", line 12.5: 1506-045 (S) Undeclared identifier count.'), [
+            { text: '"src/main.c", line 12.5', path: 'src/main.c', line: 12, column: 5 }
+        ]);
+        assert.deepStrictEqual(links('"util.h", line 3: 1540-0040 (W) Unexpected text.'), [
+            { text: '"util.h", line 3', path: 'util.h', line: 3, column: undefined }
+        ]);
+    });
+
+    it('finds paths with a line and column', () => {
+        assert.deepStrictEqual(links('/u/build/src/foo.c:123:7: error: expected'), [
+            { text: '/u/build/src/foo.c:123:7', path: '/u/build/src/foo.c', line: 123, column: 7 }
+        ]);
+        assert.deepStrictEqual(links('src/foo.c:123:int count;'), [
+            { text: 'src/foo.c:123', path: 'src/foo.c', line: 123, column: undefined }
+        ]);
+    });
+
+    it('finds relative and home paths', () => {
+        assert.deepStrictEqual(links('run ./configure then ../tools/build.sh and ~/.profile').map(link => link.path), [
+            './configure',
+            '../tools/build.sh',
+            '~/.profile'
+        ]);
+    });
+
+    it('skips words that do not look like files', () => {
+        assert.deepStrictEqual(links('make: Nothing to be done for all. See Makefile.am'), [
+            { text: 'Makefile.am', path: 'Makefile.am', line: undefined, column: undefined }
+        ]);
+    });
+
+    it('stops at the limit', () => {
+        assert.strictEqual(findLinkCandidates('a.c b.c c.c d.c', 2).length, 2);
+    });
+});